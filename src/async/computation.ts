@@ -1,5 +1,8 @@
 import type { AsyncFlow, AsyncFlowState, Flow, InferAsyncFlowValue } from "@tsip/types";
 import { FlowComputationBase } from "../base/computation";
+import { CircularDependencyError } from "../lib/circularDependencyError";
+import { tracker } from "../lib/tracker";
+import { withTimeout } from "../lib/timeout";
 
 /**
  * Context object provided to async flow computation functions.
@@ -20,7 +23,28 @@ export interface AsyncFlowComputationContext {
      * const value = watch(someFlow); // Reads current value and creates dependency
      * ```
      */
-    readonly watch: <T>(flow: Flow<T>) => T;
+    readonly watch: {
+        <T>(flow: Flow<T>): T;
+
+        /**
+         * Synchronously reads a slice of the current value from a flow.
+         *
+         * The computation depends only on the selected slice: it's re-run when the slice changes
+         * according to `equals`, and not when other parts of the flow value change.
+         *
+         * @param flow - The flow to read the value from
+         * @param selector - The function that selects the slice from the flow value
+         * @param equals - The function that compares selected slices, `Object.is` by default
+         * @returns The selected slice of the current value of the flow
+         * @throws Will throw an error if the flow is in an error state
+         *
+         * @example
+         * ```typescript
+         * const name = watch(userFlow, (user) => user.name); // Ignores changes of other fields
+         * ```
+         */
+        <T, S>(flow: Flow<T>, selector: (value: T) => S, equals?: (a: S, b: S) => boolean): S;
+    };
 
     /**
      * Utilities for tracking and awaiting asynchronous flow sources.
@@ -33,15 +57,22 @@ export interface AsyncFlowComputationContext {
          * and the provided async flow, ensuring that changes to the flow will trigger recomputation.
          *
          * @param flow - The async flow to read the value from
+         * @param options - Optional settings of the read
+         * @param options.timeout - The time in milliseconds to wait for a pending flow,
+         *   after which the read is rejected with a `TimeoutError`
          * @returns Promise generator that resolves to the current value of the async flow
          * @throws Will throw an error if the flow is in an error state
          *
          * @example
          * ```typescript
          * const userData = await watchAsync(userFlow); // Reads value and creates dependency
+         * const config = await watchAsync(configFlow, { timeout: 1000 }); // Waits for a second at most
          * ```
          */
-        <T extends AsyncFlow<unknown>>(flow: T): PromiseGenerator<InferAsyncFlowValue<T>>;
+        <T extends AsyncFlow<unknown>>(
+            flow: T,
+            options?: { timeout?: number },
+        ): PromiseGenerator<InferAsyncFlowValue<T>>;
 
         /**
          * Waits for all async flows to resolve, similar to Promise.all.
@@ -82,6 +113,56 @@ export interface AsyncFlowComputationContext {
         race<T extends readonly AsyncFlow<unknown>[] | []>(flows: T): PromiseGenerator<InferAsyncFlowValue<T[number]>>;
     };
 
+    /**
+     * Reads the current value from a flow without establishing a dependency.
+     *
+     * Changes of the flow don't trigger recomputation. It's useful for reading values
+     * that the result doesn't depend on, e.g. for logging.
+     *
+     * @param flow - The flow to read the value from
+     * @returns The current value of the flow
+     * @throws Will throw an error if the flow is in an error state
+     *
+     * @example
+     * ```typescript
+     * const level = peek(logLevelFlow); // Reads current value without creating dependency
+     * ```
+     */
+    readonly peek: <T>(flow: Flow<T>) => T;
+
+    /**
+     * Runs a function without establishing dependencies on the flows read inside it,
+     * either with `watch` or with `getSnapshot`.
+     *
+     * Only the synchronous part of the function is untracked.
+     *
+     * @param fn - The function to run
+     * @returns The result of the function
+     *
+     * @example
+     * ```typescript
+     * const config = untracked(() => readConfig()); // Flows read by readConfig are not dependencies
+     * ```
+     */
+    readonly untracked: <T>(fn: () => T) => T;
+
+    /**
+     * Registers a function that releases resources allocated by the computation,
+     * such as timers, listeners or object URLs.
+     *
+     * The function is called when the computation is superseded by a newer one, when it's aborted,
+     * or when the flow loses its last subscriber.
+     *
+     * @param fn - The cleanup function
+     *
+     * @example
+     * ```typescript
+     * const url = URL.createObjectURL(watch(blobFlow));
+     * onCleanup(() => URL.revokeObjectURL(url));
+     * ```
+     */
+    readonly onCleanup: (fn: () => void) => void;
+
     /**
      * Cancels the current computation and prevents the flow value from being updated.
      *
@@ -107,6 +188,13 @@ export interface AsyncFlowComputationContext {
      * allowing async operations to be cancelled gracefully.
      */
     readonly signal: AbortSignal;
+
+    /**
+     * The number of the current attempt of the computation when the `retry` option is used.
+     *
+     * It's `0` for the first attempt, and the number of the retry for subsequent attempts.
+     */
+    readonly attempt: number;
 }
 
 /**
@@ -135,6 +223,12 @@ interface PromiseRejectedResult {
  */
 type PromiseSettledResult<T> = PromiseFulfilledResult<T> | PromiseRejectedResult;
 
+/**
+ * Computations that are awaiting pending async flows, grouped by the flow they compute.
+ * It's used to detect circular dependencies closed after the first `await` of a getter.
+ */
+const awaitingComputations = new WeakMap<AsyncFlow<unknown>, Set<AsyncFlowComputation<unknown>>>();
+
 /**
  * Asynchronous flow computation implementation.
  *
@@ -151,15 +245,32 @@ export class AsyncFlowComputation<T> extends FlowComputationBase<AsyncFlowState<
      */
     public readonly epoch: number;
 
+    /**
+     * The number of the current attempt, incremented before each retry of the getter.
+     */
+    public attempt = 0;
+
+    /**
+     * The flow whose value is computed.
+     */
+    private readonly flow: AsyncFlow<T>;
+
+    /**
+     * Pending async flows the getter is currently awaiting.
+     */
+    private awaitedFlows: AsyncFlow<unknown>[] = [];
+
     /**
      * Creates a new AsyncFlowComputation instance.
      *
      * @param epoch - The epoch number for this computation
+     * @param flow - The flow whose value is computed
      */
-    public constructor(epoch: number) {
+    public constructor(epoch: number, flow: AsyncFlow<T>) {
         super();
         this.abortController = new AbortController();
         this.epoch = epoch;
+        this.flow = flow;
     }
 
     /**
@@ -168,8 +279,11 @@ export class AsyncFlowComputation<T> extends FlowComputationBase<AsyncFlowState<
      * @returns A context object
      */
     public getContext(): AsyncFlowComputationContext {
-        const watchAsync: AsyncFlowComputationContext["watchAsync"] = ((flow: AsyncFlow<unknown>) => {
-            return this.toIterator(this.readAsyncFlow(flow));
+        const watchAsync: AsyncFlowComputationContext["watchAsync"] = ((
+            flow: AsyncFlow<unknown>,
+            options?: { timeout?: number },
+        ) => {
+            return this.toIterator(this.readAsyncFlow(flow, options?.timeout));
         }) as AsyncFlowComputationContext["watchAsync"];
 
         watchAsync.all = ((flows) => {
@@ -193,10 +307,18 @@ export class AsyncFlowComputation<T> extends FlowComputationBase<AsyncFlowState<
         }) as AsyncFlowComputationContext["watchAsync"]["race"];
 
         return {
-            watch: (flow) => this.readFlow(flow),
+            watch: ((flow: Flow<unknown>, selector?: (value: unknown) => unknown, equals = Object.is) => {
+                return selector ? this.readFlowSlice(flow, selector, equals) : this.readFlow(flow);
+            }) as AsyncFlowComputationContext["watch"],
             watchAsync,
+            peek: (flow) => this.peek(flow),
+            untracked: (fn) => this.untracked(fn),
+            onCleanup: (fn) => {
+                this.onCleanup(fn);
+            },
             skip: () => this.skip(),
             signal: this.abortController.signal,
+            attempt: this.attempt,
         };
     }
 
@@ -210,10 +332,27 @@ export class AsyncFlowComputation<T> extends FlowComputationBase<AsyncFlowState<
     }
 
     /**
-     * Aborts the computation by triggering the abort controller.
+     * Aborts the computation by triggering the abort controller and releases its resources.
+     *
+     * @param reason - The abort reason, an `AbortError` by default
      */
-    public abort() {
-        this.abortController.abort();
+    public abort(reason?: unknown) {
+        this.abortController.abort(reason);
+        this.cleanup();
+    }
+
+    /**
+     * The abort signal of the computation, aborted when the computation is aborted or finalized.
+     */
+    public get signal(): AbortSignal {
+        return this.abortController.signal;
+    }
+
+    /**
+     * Whether the computation has been aborted or finalized.
+     */
+    public get aborted(): boolean {
+        return this.abortController.signal.aborted;
     }
 
     /**
@@ -221,31 +360,126 @@ export class AsyncFlowComputation<T> extends FlowComputationBase<AsyncFlowState<
      *
      * @typeParam T - The type of value the async flow produces
      * @param flow - The async flow to read from
+     * @param timeout - The time in milliseconds to wait for a pending flow
      * @returns Promise that resolves to the current value of the async flow
      * @throws The flow's error if it's in an error state, or any error that occurs during resolution
      */
-    protected async readAsyncFlow<T>(flow: AsyncFlow<T>): Promise<T> {
-        this.addSource(flow);
+    protected async readAsyncFlow<T>(flow: AsyncFlow<T>, timeout?: number): Promise<T> {
+        // The flow is registered explicitly, so the reads are not reported to the tracker
+        const getSnapshot = () => tracker.untracked(() => flow.getSnapshot());
+        const snapshot = this.track(flow, () => {
+            const snapshot = getSnapshot();
+            if (snapshot.status === "pending") {
+                this.detectAwaitCycle(flow);
+            }
+            return snapshot;
+        });
         try {
-            const snapshot = flow.getSnapshot();
             if (snapshot.status === "error") {
                 throw snapshot.error;
             }
 
-            this.setSourceValue(flow, snapshot);
             if (snapshot.status === "success") {
                 return snapshot.data;
             }
 
-            const data = await flow.asPromise();
-            this.setSourceValue(flow, flow.getSnapshot());
-            return data;
+            const promise = tracker.untracked(() => flow.asPromise());
+            this.startAwaiting(flow);
+            try {
+                const data = await (timeout === undefined
+                    ? promise
+                    : withTimeout(promise, timeout, `Async flow is pending for more than ${timeout.toString()}ms`));
+                this.setSourceValue(flow, getSnapshot());
+                return data;
+            } finally {
+                this.stopAwaiting(flow);
+            }
         } catch (err) {
-            this.setSourceValue(flow, flow.getSnapshot());
+            const state = getSnapshot();
+            this.setSourceValue(flow, state);
+
+            // Unlike the timeout of waiting, the error of the flow is not raised by the getter
+            if (state.status === "error" && Object.is(state.error, err)) {
+                this.addSourceError(err);
+            }
             throw err;
         }
     }
 
+    /**
+     * Throws if awaiting the pending flow would never finish, because the flow is awaiting
+     * the flow of this computation, directly or through other flows.
+     *
+     * @param flow - The pending flow to await
+     * @throws {CircularDependencyError} If the flows are awaiting each other
+     */
+    private detectAwaitCycle(flow: AsyncFlow<unknown>): void {
+        const path = this.findAwaitPath(flow, new Set());
+        if (path) {
+            throw new CircularDependencyError([this.flow, ...path]);
+        }
+    }
+
+    /**
+     * Finds the chain of flows awaiting each other from the given flow to the flow of this computation.
+     *
+     * @param from - The flow to start from
+     * @param visited - The flows that have already been checked
+     * @returns The flows of the chain ending with the flow of this computation, or `null` if there is no chain
+     */
+    private findAwaitPath(from: AsyncFlow<unknown>, visited: Set<AsyncFlow<unknown>>): AsyncFlow<unknown>[] | null {
+        if (from === this.flow) {
+            return [from];
+        }
+        if (visited.has(from)) {
+            return null;
+        }
+        visited.add(from);
+
+        for (const computation of awaitingComputations.get(from) ?? []) {
+            // Aborted computations don't hold their flows pending anymore
+            if (computation.aborted) {
+                continue;
+            }
+
+            for (const awaited of computation.awaitedFlows) {
+                const path = this.findAwaitPath(awaited, visited);
+                if (path) {
+                    return [from, ...path];
+                }
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Registers the computation as awaiting the pending flow.
+     *
+     * @param flow - The awaited flow
+     */
+    private startAwaiting(flow: AsyncFlow<unknown>): void {
+        this.awaitedFlows.push(flow);
+
+        let computations = awaitingComputations.get(this.flow);
+        if (!computations) {
+            computations = new Set();
+            awaitingComputations.set(this.flow, computations);
+        }
+        computations.add(this);
+    }
+
+    /**
+     * Unregisters the computation as awaiting the flow once it's settled.
+     *
+     * @param flow - The awaited flow
+     */
+    private stopAwaiting(flow: AsyncFlow<unknown>): void {
+        this.awaitedFlows.splice(this.awaitedFlows.indexOf(flow), 1);
+        if (this.awaitedFlows.length === 0) {
+            awaitingComputations.get(this.flow)?.delete(this);
+        }
+    }
+
     /**
      * Converts a Promise into a PromiseGenerator that can be used with generator syntax.
      *
@@ -2,6 +2,9 @@ import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
 import type { AsyncFlow } from "@tsip/types";
 import { createAsyncFlow } from "@tsip/flow";
 import { asyncComputedFlow } from "./factory";
+import type { RefreshableAsyncFlow } from "./instance";
+import type { FlowFamily } from "../lib/flowFamily";
+import { structuralKey } from "../lib/structuralKey";
 
 describe("AsyncComputedFlow factory", () => {
     describe("promises", () => {
@@ -11,7 +14,7 @@ describe("AsyncComputedFlow factory", () => {
                 const flow = asyncComputedFlow(async ({ watchAsync: getAsync }) => {
                     return (await getAsync(source)) * 2;
                 });
-                expectTypeOf(flow).toEqualTypeOf<AsyncFlow<number>>();
+                expectTypeOf(flow).toEqualTypeOf<RefreshableAsyncFlow<number>>();
                 await expect(flow.asPromise()).resolves.toBe(4);
             });
         });
@@ -22,7 +25,7 @@ describe("AsyncComputedFlow factory", () => {
                 const flow = asyncComputedFlow(async ({ watchAsync: getAsync }, param: number) => {
                     return (await getAsync(source)) * param;
                 });
-                expectTypeOf(flow).toEqualTypeOf<(param: number) => AsyncFlow<number>>();
+                expectTypeOf(flow).toEqualTypeOf<FlowFamily<[param: number], RefreshableAsyncFlow<number>>>();
                 await expect(flow(5).asPromise()).resolves.toBe(10);
             });
 
@@ -32,10 +35,20 @@ describe("AsyncComputedFlow factory", () => {
                 const flow = asyncComputedFlow(async ({ watchAsync: getAsync }, param: number = 2) => {
                     return (await getAsync(source)) * param;
                 });
-                expectTypeOf(flow).toEqualTypeOf<AsyncFlow<number>>();
+                expectTypeOf(flow).toEqualTypeOf<RefreshableAsyncFlow<number>>();
                 await expect(flow.asPromise()).resolves.toBe(4);
             });
         });
+        describe("with multiple params", () => {
+            it("should compute and return value", async () => {
+                const source = createAsyncFlow({ status: "success", data: 2 });
+                const flow = asyncComputedFlow(async ({ watchAsync: getAsync }, a: number, b: string) => {
+                    return `${b}:${((await getAsync(source)) * a).toString()}`;
+                });
+                expectTypeOf(flow).toEqualTypeOf<FlowFamily<[a: number, b: string], RefreshableAsyncFlow<string>>>();
+                await expect(flow(5, "x").asPromise()).resolves.toBe("x:10");
+            });
+        });
     });
 
     describe("generators", () => {
@@ -45,7 +58,7 @@ describe("AsyncComputedFlow factory", () => {
                 const flow = asyncComputedFlow(function* ({ watchAsync: getAsync }) {
                     return (yield* getAsync(source)) * 2;
                 });
-                expectTypeOf(flow).toEqualTypeOf<AsyncFlow<number>>();
+                expectTypeOf(flow).toEqualTypeOf<RefreshableAsyncFlow<number>>();
                 await expect(flow.asPromise()).resolves.toBe(4);
             });
         });
@@ -56,10 +69,20 @@ describe("AsyncComputedFlow factory", () => {
                 const flow = asyncComputedFlow(function* ({ watchAsync: getAsync }, param: number) {
                     return (yield* getAsync(source)) * param;
                 });
-                expectTypeOf(flow).toEqualTypeOf<(param: number) => AsyncFlow<number>>();
+                expectTypeOf(flow).toEqualTypeOf<FlowFamily<[param: number], RefreshableAsyncFlow<number>>>();
                 await expect(flow(5).asPromise()).resolves.toBe(10);
             });
         });
+        describe("with multiple params", () => {
+            it("should compute and return value", async () => {
+                const source = createAsyncFlow({ status: "success", data: 2 });
+                const flow = asyncComputedFlow(function* ({ watchAsync: getAsync }, a: number, b: string) {
+                    return `${b}:${((yield* getAsync(source)) * a).toString()}`;
+                });
+                expectTypeOf(flow).toEqualTypeOf<FlowFamily<[a: number, b: string], RefreshableAsyncFlow<string>>>();
+                await expect(flow(5, "x").asPromise()).resolves.toBe("x:10");
+            });
+        });
     });
 
     describe("memoization", () => {
@@ -95,6 +118,75 @@ describe("AsyncComputedFlow factory", () => {
             expect(instance1).toBe(instance2);
             expect(instance1).not.toBe(instance3);
         });
+
+        it("should look up instances by param key", () => {
+            const source = createAsyncFlow({ status: "success", data: 2 });
+            const flow = asyncComputedFlow(
+                async ({ watchAsync }, param: { id: number; name: string }) => {
+                    return (await watchAsync(source)) * param.id;
+                },
+                {
+                    paramKey: (param: { id: number; name: string }) => param.id,
+                },
+            );
+
+            const instance1 = flow({ id: 1, name: "first" });
+            const instance2 = flow({ id: 1, name: "second" });
+            const instance3 = flow({ id: 2, name: "first" });
+
+            expect(instance1).toBe(instance2);
+            expect(instance1).not.toBe(instance3);
+        });
+
+        it("should look up instances by structural key", () => {
+            const source = createAsyncFlow({ status: "success", data: 2 });
+            const flow = asyncComputedFlow(
+                async ({ watchAsync }, param: { id: number; name: string }) => {
+                    return (await watchAsync(source)) * param.id;
+                },
+                {
+                    paramKey: structuralKey,
+                },
+            );
+
+            const instance1 = flow({ id: 1, name: "first" });
+            const instance2 = flow({ name: "first", id: 1 });
+            const instance3 = flow({ id: 1, name: "second" });
+
+            expect(instance1).toBe(instance2);
+            expect(instance1).not.toBe(instance3);
+        });
+
+        it("should return the same instance for equal lists of params", () => {
+            const source = createAsyncFlow({ status: "success", data: 2 });
+            const flow = asyncComputedFlow(async ({ watchAsync: getAsync }, a: number, b: string) => {
+                return `${b}:${((await getAsync(source)) * a).toString()}`;
+            });
+
+            const instance1 = flow(1, "x");
+            const instance2 = flow(1, "x");
+            const instance3 = flow(1, "y");
+
+            expect(instance1).toBe(instance2);
+            expect(instance1).not.toBe(instance3);
+        });
+    });
+
+    describe("invalidateAll", () => {
+        it("should recompute all cached flows of the family", async () => {
+            let version = 1;
+            const getFlow = asyncComputedFlow((_ctx, param: number) => Promise.resolve(param * version));
+            const flow1 = getFlow(1);
+            const flow2 = getFlow(2);
+            await flow1.asPromise();
+            await flow2.asPromise();
+
+            version = 10;
+            getFlow.invalidateAll();
+            expect(flow1.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            await expect(flow1.asPromise()).resolves.toBe(10);
+            await expect(flow2.asPromise()).resolves.toBe(20);
+        });
     });
 
     describe("garbage collection", () => {
@@ -165,6 +257,29 @@ describe("AsyncComputedFlow factory", () => {
             expect(flow2).toBe(weakRef.deref());
         });
     });
+
+    describe("cache options", () => {
+        beforeEach(async () => {
+            await triggerGC();
+        });
+
+        it("should hold recently used flows up to cache.maxSize", async () => {
+            const source = createAsyncFlow({ status: "success", data: 2 });
+            const getFlow = asyncComputedFlow(
+                async ({ watchAsync }, param: number) => (await watchAsync(source)) * param,
+                { cache: { maxSize: 1 } },
+            );
+
+            const weakRef1 = new WeakRef(getFlow(1));
+            const weakRef2 = new WeakRef(getFlow(2));
+
+            await triggerGC();
+
+            expect(isCollected(weakRef1)).toBe(true);
+            expect(isCollected(weakRef2)).toBe(false);
+            expect(getFlow(2)).toBe(weakRef2.deref());
+        });
+    });
 });
 
 // Helper to trigger garbage collection if available
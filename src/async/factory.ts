@@ -1,8 +1,14 @@
-import { memoize } from "../lib/memoize";
-import type { AsyncFlow, AsyncFlowState } from "@tsip/types";
+import { memoize, type CacheOptions } from "../lib/memoize";
+import type { RetryOptions } from "../lib/retry";
+import { argumentsKey } from "../lib/structuralKey";
+import { setFlowParam } from "../lib/inspect";
+import { withFamilyMemberName } from "../lib/familyMemberName";
+import { createFlowFamily, type FlowFamily } from "../lib/flowFamily";
+import type { AsyncFlowState, Flow } from "@tsip/types";
 import { AsyncComputedPromiseFlow } from "./promises/instance";
 import { AsyncComputedGeneratorFlow } from "./generators/instance";
 import type { AsyncFlowComputationContext } from "./computation";
+import type { AsyncConcurrency, RefreshableAsyncFlow } from "./instance";
 
 /**
  * A function that computes a flow's value and doesn't require parameters.
@@ -10,11 +16,13 @@ import type { AsyncFlowComputationContext } from "./computation";
  * @typeParam Data - The type of value returned by the computation
  * @param ctx - The computation context providing access to reactive dependencies
  * @param param - Always undefined for parameterless getters
+ * @param rest - Always empty for parameterless getters
  * @returns A promise that resolves to the computed value
  */
 export type AsyncComputedPromiseFlowGetter<Data> = (
     ctx: AsyncFlowComputationContext,
     param: undefined,
+    ...rest: undefined[]
 ) => Promise<Data>;
 
 /**
@@ -31,17 +39,33 @@ export type AsyncComputedPromiseFlowGetterWithParam<Data, Param> = (
     param: Param,
 ) => Promise<Data>;
 
+/**
+ * A function that computes a flow's value and requires multiple parameters.
+ *
+ * @typeParam Data - The type of value returned by the computation
+ * @typeParam Params - The types of parameters passed to the computation
+ * @param ctx - The computation context providing access to reactive dependencies
+ * @param params - The parameter values used in the computation
+ * @returns A promise that resolves to the computed value
+ */
+export type AsyncComputedPromiseFlowGetterWithParams<Data, Params extends unknown[]> = (
+    ctx: AsyncFlowComputationContext,
+    ...params: Params
+) => Promise<Data>;
+
 /**
  * A generator function that computes a flow's value and doesn't require parameters.
  *
  * @typeParam Data - The type of value returned by the computation
  * @param ctx - The computation context providing access to reactive dependencies
  * @param param - Always undefined for parameterless getters
+ * @param rest - Always empty for parameterless getters
  * @returns A generator that yields intermediate values and returns the final computed value
  */
 export type AsyncComputedGeneratorFlowGetter<Data> = (
     ctx: AsyncFlowComputationContext,
     param: undefined,
+    ...rest: undefined[]
 ) => Generator<unknown, Data, undefined>;
 
 /**
@@ -58,6 +82,20 @@ export type AsyncComputedGeneratorFlowGetterWithParam<Data, Param> = (
     param: Param,
 ) => Generator<unknown, Data, undefined>;
 
+/**
+ * A generator function that computes a flow's value and requires multiple parameters.
+ *
+ * @typeParam Data - The type of value returned by the computation
+ * @typeParam Params - The types of parameters passed to the computation
+ * @param ctx - The computation context providing access to reactive dependencies
+ * @param params - The parameter values used in the computation
+ * @returns A generator that yields intermediate values and returns the final computed value
+ */
+export type AsyncComputedGeneratorFlowGetterWithParams<Data, Params extends unknown[]> = (
+    ctx: AsyncFlowComputationContext,
+    ...params: Params
+) => Generator<unknown, Data, undefined>;
+
 /**
  * Union type for all supported getter functions.
  *
@@ -68,7 +106,9 @@ export type AsyncComputedFlowGetter<Data, Param> =
     | AsyncComputedPromiseFlowGetter<Data>
     | AsyncComputedPromiseFlowGetterWithParam<Data, Param>
     | AsyncComputedGeneratorFlowGetter<Data>
-    | AsyncComputedGeneratorFlowGetterWithParam<Data, Param>;
+    | AsyncComputedGeneratorFlowGetterWithParam<Data, Param>
+    | AsyncComputedPromiseFlowGetterWithParams<Data, unknown[]>
+    | AsyncComputedGeneratorFlowGetterWithParams<Data, unknown[]>;
 
 /**
  * Union type for all supported flow instances.
@@ -81,9 +121,61 @@ export type AsyncComputedFlow<Data> = AsyncComputedPromiseFlow<Data> | AsyncComp
  * Configuration options for asynchronous computed flows.
  *
  * @typeParam Data - The type of value returned by the computation
- * @typeParam Param - The type of parameter passed to the computation (if any)
+ * @typeParam Param - The type of parameter passed to the computation (if any),
+ * or the tuple of parameter types for computations with multiple parameters
  */
 export interface AsyncComputedFlowOptions<Data, Param> {
+    /**
+     * The debug label of the flow.
+     *
+     * It's used in logged errors and in errors of the getter, which are wrapped into an error
+     * with the label and the original error as the `cause`. For parameterized flows,
+     * the name of each instance is suffixed with its parameters, e.g. `user(42)`.
+     */
+    name?: string;
+
+    /**
+     * How long the flow keeps tracking its sources after the last subscriber is removed.
+     *
+     * Subscribers that come back within the grace period reuse the current value without recomputation.
+     * A number is the grace period in milliseconds, `true` keeps the flow active forever,
+     * and `false` or `0` stops tracking immediately.
+     *
+     * @default false
+     *
+     * @example
+     * ```typescript
+     * // Keep the flow active for 5 seconds after the last component unmounts
+     * keepAlive: 5_000
+     * ```
+     */
+    keepAlive?: number | boolean;
+
+    /**
+     * Whether the flow recomputes as soon as its sources change while it's subscribed,
+     * instead of waiting for the next read. Async computations start right away,
+     * so the data is loading before it's read.
+     *
+     * @default false
+     */
+    eager?: boolean;
+
+    /**
+     * Called when a listener of the flow throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the listener
+     * @param flow - The flow whose listener has thrown
+     */
+    onListenerError?: (error: unknown, flow: Flow<unknown>) => void;
+
+    /**
+     * Called when the getter throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the getter
+     * @param flow - The flow whose getter has thrown
+     */
+    onComputationError?: (error: unknown, flow: Flow<unknown>) => void;
+
     /**
      * The initial value to use when the computation fails with an abort error
      * and no cached value is available.
@@ -109,11 +201,65 @@ export interface AsyncComputedFlowOptions<Data, Param> {
      */
     equals?: (a: Data, b: Data) => boolean;
 
+    /**
+     * Retry policy for failed computations, or the maximum number of retries.
+     *
+     * While retrying, the flow stays `pending` with the previous data, and the getter receives
+     * the number of the attempt in `ctx.attempt`. Retries stop when the computation is superseded or aborted.
+     * Delays grow exponentially with random jitter.
+     *
+     * @example
+     * ```typescript
+     * // Retry up to 3 times after 1, 2 and 4 seconds (with jitter)
+     * retry: 3
+     *
+     * // Retry network errors only
+     * retry: { count: 5, delay: 500, shouldRetry: (error) => error instanceof NetworkError }
+     * ```
+     */
+    retry?: number | RetryOptions;
+
+    /**
+     * The maximum duration of a computation in milliseconds.
+     *
+     * When exceeded, `ctx.signal` is aborted with a `TimeoutError` reason, and the flow transitions
+     * to an error state with the previous data. Timed out computations are not retried.
+     *
+     * @example
+     * ```typescript
+     * // Fail computations that take longer than 10 seconds
+     * timeout: 10_000
+     * ```
+     */
+    timeout?: number;
+
+    /**
+     * Strategy of running a new computation while the previous one is still in progress.
+     *
+     * - `switch` aborts the previous computation and starts the new one
+     * - `exhaust` ignores source changes until the running computation is finished,
+     *   then recomputes once if the sources have changed in the meantime
+     * - `queue` runs a computation as soon as the running one is finished, coalescing source changes
+     *   made in the meantime into this single run, which reads the latest values
+     * - `parallel` runs computations side by side and publishes the result of the latest one,
+     *   ignoring results of older computations that finish after it
+     *
+     * @default "switch"
+     *
+     * @example
+     * ```typescript
+     * // Don't restart a long-running report while its filters are being edited
+     * concurrency: "exhaust"
+     * ```
+     */
+    concurrency?: AsyncConcurrency;
+
     /**
      * Function to compare parameters to determine cache key equality.
      *
      * This is used to find existing computed flows in the cache when
-     * the same parameter is used multiple times.
+     * the same parameter is used multiple times. For computations with multiple
+     * parameters, the lists of parameters are compared.
      *
      * @param a - The first parameter to compare
      * @param b - The second parameter to compare
@@ -127,6 +273,42 @@ export interface AsyncComputedFlowOptions<Data, Param> {
      * ```
      */
     paramEquals?: (a: Param, b: Param) => boolean;
+
+    /**
+     * Function to map parameters to cache keys.
+     *
+     * Parameters with the same key share the same computed flow instance. Unlike `paramEquals`,
+     * which compares the parameter with every cached one, the lookup by key takes constant time.
+     * When provided, `paramEquals` is ignored. For computations with multiple parameters,
+     * the key is created for the list of parameters.
+     *
+     * @param param - The parameter to create a key for
+     * @returns The cache key for the parameter
+     *
+     * @example
+     * ```typescript
+     * // Use an identifier as the key
+     * paramKey: (param) => param.id
+     *
+     * // Compare plain objects and arrays by their content
+     * paramKey: structuralKey
+     * ```
+     */
+    paramKey?: (param: Param) => string | number;
+
+    /**
+     * Limits for holding instances of a parameterized flow in the cache.
+     *
+     * By default, instances are cached with weak references and are released once garbage collected.
+     * With this option, instances are held strongly within the configured limits.
+     *
+     * @example
+     * ```typescript
+     * // Keep up to 100 recently used instances for a minute, and all subscribed instances
+     * cache: { maxSize: 100, ttl: 60_000, retainSubscribed: true }
+     * ```
+     */
+    cache?: CacheOptions;
 }
 
 /**
@@ -157,7 +339,7 @@ export interface AsyncComputedFlowOptions<Data, Param> {
 export function asyncComputedFlow<Data = unknown, Param = never>(
     getter: AsyncComputedPromiseFlowGetter<Data> | AsyncComputedGeneratorFlowGetter<Data>,
     options?: AsyncComputedFlowOptions<Data, Param>,
-): AsyncFlow<Data>;
+): RefreshableAsyncFlow<Data>;
 
 /**
  * Creates a parameterized asynchronous computed flow factory.
@@ -192,7 +374,35 @@ export function asyncComputedFlow<Data = unknown, Param = never>(
         | AsyncComputedPromiseFlowGetterWithParam<Data, Param>
         | AsyncComputedGeneratorFlowGetterWithParam<Data, Param>,
     options?: AsyncComputedFlowOptions<Data, Param>,
-): (param: Param) => AsyncFlow<Data>;
+): FlowFamily<[param: Param], RefreshableAsyncFlow<Data>>;
+
+/**
+ * Creates an asynchronous computed flow factory with multiple parameters.
+ *
+ * Each combination of parameters gets its own memoized instance. By default, the parameters are compared
+ * one by one with `Object.is`; `paramEquals` and `paramKey` receive the list of parameters.
+ *
+ * @typeParam Data - The type of value returned by the computation
+ * @typeParam Params - The types of parameters passed to the computation
+ * @param getter - The computation function that takes parameters and produces a value (async function or generator)
+ * @param options - Optional configuration for the computed flow
+ * @returns A factory function that creates computed flow instances for given parameters
+ *
+ * @example
+ * ```typescript
+ * const memberFlow = asyncComputedFlow(async (ctx, orgId: string, userId: string) => {
+ *   return await fetchMember(orgId, userId, ctx.signal);
+ * });
+ *
+ * const member = memberFlow('acme', 'john123');
+ * ```
+ */
+export function asyncComputedFlow<Data = unknown, Params extends [unknown, unknown, ...unknown[]] = never>(
+    getter:
+        | AsyncComputedPromiseFlowGetterWithParams<Data, Params>
+        | AsyncComputedGeneratorFlowGetterWithParams<Data, Params>,
+    options?: AsyncComputedFlowOptions<Data, Params>,
+): FlowFamily<Params, RefreshableAsyncFlow<Data>>;
 
 /**
  * Creates an asynchronous computed flow.
@@ -211,25 +421,59 @@ export function asyncComputedFlow<Data = unknown, Param = never>(
 export function asyncComputedFlow<Data = unknown, Param = never>(
     getter: AsyncComputedFlowGetter<Data, Param>,
     options?: AsyncComputedFlowOptions<Data, Param>,
-): AsyncFlow<Data> | ((param: Param) => AsyncFlow<Data>) {
+):
+    | RefreshableAsyncFlow<Data>
+    | FlowFamily<[param: Param], RefreshableAsyncFlow<Data>>
+    | FlowFamily<unknown[], RefreshableAsyncFlow<Data>> {
+    if (hasGetterParams(getter)) {
+        // Create a memoized factory keyed by the list of parameters
+        const paramsOptions = options as AsyncComputedFlowOptions<Data, unknown[]> | undefined;
+        const factory = memoize(
+            (params: unknown[]) => {
+                const flowOptions = withFamilyMemberName(options, params);
+                const flow = isGenerator(getter)
+                    ? new AsyncComputedGeneratorFlow<Data>((ctx) => {
+                          return getter(ctx, ...params);
+                      }, flowOptions)
+                    : new AsyncComputedPromiseFlow<Data>((ctx) => {
+                          return getter(ctx, ...params);
+                      }, flowOptions);
+                setFlowParam(flow, params);
+                return flow;
+            },
+            {
+                equals: paramsOptions?.paramEquals,
+                key: paramsOptions?.paramKey ?? (paramsOptions?.paramEquals ? undefined : argumentsKey),
+                cache: options?.cache,
+                isSubscribed: (flow) => flow.hasSubscribers(),
+            },
+        );
+        return createFlowFamily((...params: unknown[]) => factory(params), factory);
+    }
+
     if (hasGetterParam(getter)) {
         // Create a memoized factory for parameterized computed flows
-        return memoize(
+        const factory = memoize(
             (param: Param) => {
-                if (isGenerator(getter)) {
-                    return new AsyncComputedGeneratorFlow<Data>((ctx) => {
-                        return getter(ctx, param);
-                    }, options);
-                } else {
-                    return new AsyncComputedPromiseFlow<Data>((ctx) => {
-                        return getter(ctx, param);
-                    }, options);
-                }
+                const flowOptions = withFamilyMemberName(options, [param]);
+                const flow = isGenerator(getter)
+                    ? new AsyncComputedGeneratorFlow<Data>((ctx) => {
+                          return getter(ctx, param);
+                      }, flowOptions)
+                    : new AsyncComputedPromiseFlow<Data>((ctx) => {
+                          return getter(ctx, param);
+                      }, flowOptions);
+                setFlowParam(flow, param);
+                return flow;
             },
             {
                 equals: options?.paramEquals,
+                key: options?.paramKey,
+                cache: options?.cache,
+                isSubscribed: (flow) => flow.hasSubscribers(),
             },
         );
+        return createFlowFamily((param: Param) => factory(param), factory);
     }
 
     // Create a single computed flow for non-parameterized getters
@@ -261,6 +505,25 @@ function hasGetterParam<Data, Param>(
     return getter.length > 1;
 }
 
+/**
+ * Type guard to determine if a getter function accepts multiple parameters.
+ *
+ * Parameters with default values and rest parameters are not counted,
+ * the same way as in {@link hasGetterParam}.
+ *
+ * @typeParam Data - The type of value returned by the computation
+ * @typeParam Param - The type of parameter passed to the computation
+ * @param getter - The getter function to check
+ * @returns `true` if the getter accepts more than one parameter besides the context, `false` otherwise
+ */
+function hasGetterParams<Data, Param>(
+    getter: AsyncComputedFlowGetter<Data, Param>,
+): getter is
+    | AsyncComputedPromiseFlowGetterWithParams<Data, unknown[]>
+    | AsyncComputedGeneratorFlowGetterWithParams<Data, unknown[]> {
+    return getter.length > 2;
+}
+
 /**
  * Reference to the GeneratorFunction constructor.
  * It's used to detect whether a function is a generator function.
@@ -274,13 +537,12 @@ const GeneratorFunction: Function = Object.getPrototypeOf(function* () {
  * Type guard to determine if a getter function is a generator function.
  * It uses both instanceof check and constructor name comparison for reliability.
  *
- * @typeParam Data - The type of value returned by the computation
- * @typeParam Param - The type of parameter passed to the computation
+ * @typeParam Getter - The type of the getter function
  * @param getter - The getter function to check
  * @returns `true` if the getter is a generator function, `false` if it's a regular function
  */
-function isGenerator<Data, Param>(
-    getter: AsyncComputedFlowGetter<Data, Param>,
-): getter is AsyncComputedGeneratorFlowGetter<Data> | AsyncComputedGeneratorFlowGetterWithParam<Data, Param> {
+function isGenerator<Getter extends AsyncComputedFlowGetter<unknown, never>>(
+    getter: Getter,
+): getter is Extract<Getter, (...args: never[]) => Generator<unknown, unknown, undefined>> {
     return getter instanceof GeneratorFunction || getter.constructor.name === "GeneratorFunction";
 }
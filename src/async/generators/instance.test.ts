@@ -4,6 +4,8 @@ import type { AsyncFlow, AsyncFlowState, Flow } from "@tsip/types";
 import { validateAsyncFlowImplementation } from "@tsip/types/tests";
 import { describe, it, expect, vi, expectTypeOf, afterEach, beforeEach } from "vitest";
 import { AsyncComputedGeneratorFlow } from "./instance";
+import { ComputedFlow } from "../../sync/instance";
+import { CircularDependencyError } from "../../lib/circularDependencyError";
 
 describe("AsyncComputedGeneratorFlow", () => {
     beforeEach(() => {
@@ -1717,6 +1719,65 @@ describe("AsyncComputedGeneratorFlow", () => {
         });
     });
 
+    describe("retry", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should restart the generator for each retry", async () => {
+            vi.useFakeTimers();
+            const attempts: number[] = [];
+            const flow = new AsyncComputedGeneratorFlow(
+                function* ({ attempt }) {
+                    attempts.push(attempt);
+                    yield Promise.resolve();
+                    if (attempt === 0) {
+                        throw new Error("Network error");
+                    }
+                    return "data";
+                },
+                { retry: { delay: 100, jitter: false } },
+            );
+            flow.subscribe(vi.fn());
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(attempts).toEqual([0, 1]);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: "data" });
+        });
+    });
+
+    describe("implicit dependencies", () => {
+        it("should track computed flows read with getSnapshot in each step of generator", async () => {
+            const a = createFlow(1);
+            const b = createFlow(10);
+            const computedA = new ComputedFlow(({ watch }) => watch(a));
+            const computedB = new ComputedFlow(({ watch }) => watch(b));
+            const flow = new AsyncComputedGeneratorFlow(function* () {
+                const valueA = computedA.getSnapshot();
+                yield Promise.resolve();
+                return valueA + computedB.getSnapshot();
+            });
+
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 11 });
+
+            b.emit(20);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 11 });
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 21 });
+
+            a.emit(2);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 21 });
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 22 });
+        });
+    });
+
     describe("custom equality", () => {
         it("should cache with custom result equality check", async () => {
             const id = createFlow("id-1");
@@ -1763,10 +1824,67 @@ describe("AsyncComputedGeneratorFlow", () => {
     });
 
     describe("cycles detection", () => {
-        // detects trivial cycles
-        // detects slightly larger cycles
-        // detects depending on self
-        it("");
+        it("should detect trivial cycles", async () => {
+            const a: AsyncFlow<number> = new AsyncComputedGeneratorFlow(
+                function* ({ watchAsync }) {
+                    return (yield* watchAsync(b)) + 1;
+                },
+                { name: "a" },
+            );
+            const b: AsyncFlow<number> = new AsyncComputedGeneratorFlow(
+                function* ({ watchAsync }) {
+                    return (yield* watchAsync(a)) + 1;
+                },
+                { name: "b" },
+            );
+
+            await expect(a.asPromise()).rejects.toThrow(CircularDependencyError);
+            await expect(a.asPromise()).rejects.toThrow("Circular dependency detected: a -> b -> a");
+        });
+
+        it("should detect slightly larger cycles", async () => {
+            const a: AsyncFlow<number> = new AsyncComputedGeneratorFlow(function* ({ watchAsync }) {
+                return (yield* watchAsync(b)) + 1;
+            });
+            const b: AsyncFlow<number> = new AsyncComputedGeneratorFlow(function* ({ watchAsync }) {
+                return (yield* watchAsync(c)) + 1;
+            });
+            const c: AsyncFlow<number> = new AsyncComputedGeneratorFlow(function* ({ watchAsync }) {
+                return (yield* watchAsync(a)) + 1;
+            });
+
+            await expect(a.asPromise()).rejects.toMatchObject({ path: [a, b, c, a] });
+        });
+
+        it("should detect depending on self", async () => {
+            const flow: AsyncFlow<number> = new AsyncComputedGeneratorFlow(
+                function* ({ watchAsync }) {
+                    return (yield* watchAsync(flow)) + 1;
+                },
+                { name: "self" },
+            );
+
+            await expect(flow.asPromise()).rejects.toThrow("Circular dependency detected: self -> self");
+        });
+
+        it("should detect cycles closed after the first yield", async () => {
+            const a: AsyncFlow<number> = new AsyncComputedGeneratorFlow(
+                function* ({ watchAsync }) {
+                    yield Promise.resolve();
+                    return (yield* watchAsync(b)) + 1;
+                },
+                { name: "a" },
+            );
+            const b: AsyncFlow<number> = new AsyncComputedGeneratorFlow(
+                function* ({ watchAsync }) {
+                    return (yield* watchAsync(a)) + 1;
+                },
+                { name: "b" },
+            );
+
+            await expect(a.asPromise()).rejects.toThrow("Circular dependency detected: a -> b -> a");
+            await expect(b.asPromise()).rejects.toThrow(CircularDependencyError);
+        });
     });
 
     describe("AsyncFlow interface", () => {
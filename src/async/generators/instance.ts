@@ -67,20 +67,16 @@ export class AsyncComputedGeneratorFlow<T> extends AsyncComputedFlowBase<T> impl
         computation: AsyncFlowComputation<T>,
         assertPromiseResult: (() => void) | null = null,
     ): AsyncFlowComputation<T> {
-        tracker.start();
         try {
             let result: IteratorResult<unknown, T> | null = null;
             for (;;) {
                 if (result?.done) {
-                    computation.setValue(this.getSuccessValue(result.value));
-                    this.onComputationFinished(computation);
-                    return computation;
+                    return this.handleComputationSuccess(computation, result.value);
                 }
 
                 try {
                     const value = result?.value;
                     if (isPromiseLike(value)) {
-                        tracker.stop();
                         value.then(
                             () => {
                                 this.run(iterator, computation);
@@ -95,16 +91,14 @@ export class AsyncComputedGeneratorFlow<T> extends AsyncComputedFlowBase<T> impl
                     }
                     assertPromiseResult?.();
                     assertPromiseResult = null;
-                    result = iterator.next();
+                    // Each synchronous step of the generator is tracked implicitly
+                    result = tracker.run(computation, () => iterator.next());
                 } catch (err) {
-                    tracker.start();
-                    result = iterator.throw(err);
+                    result = tracker.run(computation, () => iterator.throw(err));
                 }
             }
         } catch (error) {
             return this.handleComputationError(computation, error);
-        } finally {
-            tracker.stop();
         }
     }
 }
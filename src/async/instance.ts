@@ -1,14 +1,95 @@
-import type { AsyncFlow, AsyncFlowState } from "@tsip/types";
+import type { AsyncFlow, AsyncFlowState, Flow } from "@tsip/types";
+import type { FlowInspection } from "../lib/inspect";
 import { isAbortError } from "../lib/isAbortError";
+import { delay } from "../lib/delay";
+import { getRetryDelay, type RetryOptions } from "../lib/retry";
+import { createTimeoutError } from "../lib/timeout";
+import { suspend } from "../lib/suspend";
+import { batch } from "../lib/batch";
 import { ComputedFlowBase } from "../base/instance";
 import { AsyncFlowComputation } from "./computation";
 
+/**
+ * Strategy of running a new computation while the previous one is still in progress.
+ *
+ * - `switch` aborts the previous computation and starts the new one
+ * - `exhaust` keeps the previous computation and ignores source changes until it's finished,
+ *   then recomputes once if the sources have changed in the meantime
+ * - `queue` starts the new computation as soon as the running one is finished, without waiting for the next read;
+ *   source changes made while waiting are coalesced into this single run, which reads the latest values
+ * - `parallel` runs computations side by side and publishes the result of the latest one
+ */
+export type AsyncConcurrency = "switch" | "exhaust" | "queue" | "parallel";
+
+/**
+ * An async computed flow that can be recomputed on demand.
+ *
+ * @typeParam T - The type of value this flow produces
+ */
+export interface RefreshableAsyncFlow<T> extends AsyncFlow<T> {
+    /**
+     * Marks the flow as stale, so that it's recomputed on the next read even if its sources haven't changed.
+     * Subscribers are notified about the change.
+     */
+    invalidate(): void;
+
+    /**
+     * Recomputes the flow even if its sources haven't changed.
+     * The flow keeps the previous data in the `pending` state while it's recomputed.
+     *
+     * @returns A promise that resolves with the recomputed data, or rejects with the error
+     */
+    refresh(): Promise<T>;
+}
+
 /**
  * Configuration options for creating an AsyncComputedFlow.
  *
  * @typeParam T - The type of the computed value
  */
 export interface AsyncComputedFlowOptions<T> {
+    /**
+     * The debug label of the flow.
+     *
+     * It's used in logged errors and in error states of the flow, whose errors are wrapped
+     * into an error with the label and the original error as the `cause`.
+     */
+    name?: string;
+
+    /**
+     * How long the flow keeps tracking its sources after the last subscriber is removed.
+     *
+     * A number is the grace period in milliseconds, `true` keeps the flow active forever,
+     * and `false` or `0` stops tracking immediately.
+     *
+     * @default false
+     */
+    keepAlive?: number | boolean;
+
+    /**
+     * Whether the flow recomputes as soon as its sources change while it's subscribed,
+     * instead of waiting for the next read.
+     *
+     * @default false
+     */
+    eager?: boolean;
+
+    /**
+     * Called when a listener of the flow throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the listener
+     * @param flow - The flow whose listener has thrown
+     */
+    onListenerError?: (error: unknown, flow: Flow<unknown>) => void;
+
+    /**
+     * Called when the getter throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the getter
+     * @param flow - The flow whose getter has thrown
+     */
+    onComputationError?: (error: unknown, flow: Flow<unknown>) => void;
+
     /**
      * The initial value to use when the computation fails with an abort error
      * and no cached value is available.
@@ -33,6 +114,29 @@ export interface AsyncComputedFlowOptions<T> {
      * ```
      */
     equals?: (a: T, b: T) => boolean;
+
+    /**
+     * Retry policy for failed computations, or the maximum number of retries.
+     *
+     * While retrying, the flow stays `pending` with the previous data.
+     * Retries stop when the computation is superseded or aborted.
+     */
+    retry?: number | RetryOptions;
+
+    /**
+     * The maximum duration of a computation in milliseconds.
+     *
+     * When exceeded, the signal of the computation is aborted with a `TimeoutError` reason,
+     * and the flow transitions to an error state with the previous data.
+     */
+    timeout?: number;
+
+    /**
+     * Strategy of running a new computation while the previous one is still in progress.
+     *
+     * @default "switch"
+     */
+    concurrency?: AsyncConcurrency;
 }
 
 /**
@@ -59,7 +163,7 @@ export interface AsyncComputedFlowOptions<T> {
  */
 export abstract class AsyncComputedFlowBase<T>
     extends ComputedFlowBase<AsyncFlowState<T>, AsyncFlowComputation<T>>
-    implements AsyncFlow<T>
+    implements RefreshableAsyncFlow<T>
 {
     /**
      * Configuration options for this flow instance
@@ -71,6 +175,18 @@ export abstract class AsyncComputedFlowBase<T>
      */
     private pendingComputations: AsyncFlowComputation<T>[] = [];
 
+    /**
+     * Pending computations waiting for the previous ones to finish with the `queue` strategy.
+     * Except for aborted ones, there is at most one queued computation
+     */
+    private queuedComputations: AsyncFlowComputation<T>[] = [];
+
+    /**
+     * The running computation that was marked stale with the `exhaust` strategy.
+     * The flow is recomputed once it's finished
+     */
+    private staleComputation: AsyncFlowComputation<T> | null = null;
+
     /**
      * The last fully completed computation, if any
      */
@@ -98,7 +214,7 @@ export abstract class AsyncComputedFlowBase<T>
      * @param options - Optional configuration for this computed flow
      */
     public constructor(options?: AsyncComputedFlowOptions<T>) {
-        super();
+        super(options);
         this.options = options;
     }
 
@@ -164,14 +280,107 @@ export abstract class AsyncComputedFlowBase<T>
         return this.promise;
     }
 
+    /**
+     * Reads the data of the flow in the way of React Suspense and similar renderers.
+     *
+     * Returns the data in the `success` state and throws the error in the `error` state.
+     * In the `pending` state, it throws the promise returned from {@link asPromise},
+     * which stays the same until the flow settles.
+     *
+     * @returns The data of the flow
+     * @throws The error of the flow in the `error` state, or a promise in the `pending` state
+     *
+     * @example
+     * ```tsx
+     * function UserName() {
+     *   const user = userFlow.read();
+     *   return <span>{user.name}</span>;
+     * }
+     * ```
+     */
+    public read(): T {
+        return suspend(this);
+    }
+
+    /**
+     * Recomputes the flow even if its sources haven't changed, e.g. to reload data from a server.
+     *
+     * The flow transitions to the `pending` state with the previous data, and subscribers are notified.
+     * The computation starts right away, following the `concurrency` strategy of the flow.
+     *
+     * @returns A promise that resolves with the recomputed data, or rejects with the error
+     *
+     * @example
+     * ```typescript
+     * const todosFlow = new AsyncComputedPromiseFlow(async ({ signal }) => fetchTodos({ signal }));
+     *
+     * await createTodo(todo);
+     * await todosFlow.refresh();
+     * ```
+     */
+    public refresh(): Promise<T> {
+        this.markStale();
+        return this.asPromise();
+    }
+
+    /**
+     * Marks the flow as stale, so that it's recomputed on the next read even if its sources haven't changed.
+     *
+     * Unlike {@link refresh}, the computation is not started until the flow is read,
+     * which subscribers do when they are notified about the change.
+     */
+    public invalidate(): void {
+        this.markStale();
+    }
+
+    /**
+     * Marks the flow as stale, so that it's recomputed on the next read.
+     *
+     * With the `exhaust` strategy, the running computation is reused by the next read,
+     * so the flow is marked stale again once it's finished.
+     */
+    protected markStale(): void {
+        this.staleComputation = this.getExhaustingComputation();
+        super.markStale();
+    }
+
+    /**
+     * Returns a snapshot of the internal state of the flow, including the state of its computations.
+     *
+     * @returns The state of the flow, except for the family parameter
+     */
+    public inspect(): Omit<FlowInspection, "family"> {
+        return {
+            ...super.inspect(),
+            async: {
+                epoch: this.cachedComputation?.epoch ?? 0,
+                status: this.cachedComputation?.getValue().status ?? "pending",
+                pendingComputations: this.pendingComputations.length,
+            },
+        };
+    }
+
     /**
      * Performs the actual computation of this flow's value.
      *
      * @returns An AsyncFlowComputation containing the computed value or error state
      */
     protected compute(): AsyncFlowComputation<T> {
+        // Source changes are ignored until the running computation is finished
+        const runningComputation = this.getExhaustingComputation();
+        if (runningComputation) {
+            return runningComputation;
+        }
+
+        // Source changes made while waiting are coalesced into the queued computation,
+        // which reads the latest values once it's started
+        const queuedComputation = this.queuedComputations.at(-1);
+        if (queuedComputation && !queuedComputation.aborted) {
+            return queuedComputation;
+        }
+
         this.epochCounter++;
-        const computation = new AsyncFlowComputation<T>(this.epochCounter);
+        const computation = new AsyncFlowComputation<T>(this.epochCounter, this);
 
         const state: AsyncFlowState<T> = {
             status: "pending",
@@ -180,9 +389,83 @@ export abstract class AsyncComputedFlowBase<T>
         computation.setValue(state);
         this.onComputationStarted(computation);
 
+        if (this.options?.concurrency === "queue" && this.pendingComputations.length > 1) {
+            this.queuedComputations.push(computation);
+            return computation;
+        }
+
+        return this.runComputation(computation);
+    }
+
+    /**
+     * Returns the running computation that ignores source changes with the `exhaust` strategy.
+     *
+     * @returns The running computation, or `null` if there is none or another strategy is used
+     */
+    private getExhaustingComputation(): AsyncFlowComputation<T> | null {
+        const runningComputation = this.pendingComputations.at(-1);
+        if (this.options?.concurrency === "exhaust" && runningComputation && !runningComputation.aborted) {
+            return runningComputation;
+        }
+        return null;
+    }
+
+    /**
+     * Runs the getter of the computation.
+     *
+     * @param computation - The computation to run
+     * @returns An AsyncFlowComputation containing the computed value or error state
+     */
+    private runComputation(computation: AsyncFlowComputation<T>): AsyncFlowComputation<T> {
+        this.startTimeout(computation);
         return this.computeAsync(computation);
     }
 
+    /**
+     * Runs the next queued computation once all computations started before it are finished.
+     */
+    private runQueuedComputation(): void {
+        const computation = this.queuedComputations[0];
+        if (!computation || this.pendingComputations[0] !== computation) {
+            return;
+        }
+
+        this.queuedComputations.shift();
+        if (computation.aborted) {
+            // The computation was aborted while waiting, e.g. by a timeout
+            this.handleComputationError(computation, computation.signal.reason);
+        } else {
+            this.runComputation(computation);
+        }
+    }
+
+    /**
+     * Fails the computation with a `TimeoutError` if it's not finished within the `timeout` option.
+     *
+     * @param computation - The newly started computation
+     */
+    private startTimeout(computation: AsyncFlowComputation<T>): void {
+        const timeout = this.options?.timeout;
+        if (timeout === undefined) {
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            const error = createTimeoutError(`Computation timed out after ${timeout.toString()}ms`);
+            computation.abort(error);
+            this.handleComputationError(computation, error);
+        }, timeout);
+
+        // The signal is aborted when the computation is finished or aborted for any reason
+        computation.signal.addEventListener(
+            "abort",
+            () => {
+                clearTimeout(timer);
+            },
+            { once: true },
+        );
+    }
+
     /**
      * Abstract method that subclasses must implement to perform the actual async computation.
      *
@@ -197,7 +480,10 @@ export abstract class AsyncComputedFlowBase<T>
      * @param computation - The newly started computation
      */
     protected onComputationStarted(computation: AsyncFlowComputation<T>): void {
-        this.pendingComputations.at(-1)?.abort();
+        const concurrency = this.options?.concurrency ?? "switch";
+        if (concurrency === "switch") {
+            this.pendingComputations.at(-1)?.abort();
+        }
         this.pendingComputations.push(computation);
 
         if (this.cachedComputation && this.promise && this.cachedComputation.getValue().status !== "pending") {
@@ -205,6 +491,15 @@ export abstract class AsyncComputedFlowBase<T>
         }
     }
 
+    /**
+     * Aborts all in-flight and queued computations.
+     */
+    protected abortPendingComputations(): void {
+        for (const computation of this.pendingComputations) {
+            computation.abort();
+        }
+    }
+
     /**
      * Handles the completion of a computation.
      *
@@ -214,11 +509,34 @@ export abstract class AsyncComputedFlowBase<T>
         computation.finalize();
         this.removePending(computation);
 
-        const isOutdated = this.currentEpoch > computation.epoch;
-        if (isOutdated) {
-            return;
+        const isStale = this.staleComputation === computation;
+        if (isStale) {
+            this.staleComputation = null;
         }
 
+        // Subscribers are notified once the result is published and the flow is marked stale,
+        // so that they read the recomputed value of a stale computation instead of its result
+        batch(() => {
+            // Results of outdated computations are ignored, so that the latest computation wins
+            const isOutdated = this.currentEpoch > computation.epoch;
+            if (!isOutdated) {
+                this.publishComputation(computation);
+            }
+
+            if (isStale) {
+                this.markStale();
+            }
+        });
+
+        this.runQueuedComputation();
+    }
+
+    /**
+     * Publishes the value of the latest finished computation.
+     *
+     * @param computation - The computation that has finished
+     */
+    private publishComputation(computation: AsyncFlowComputation<T>): void {
         this.currentEpoch = computation.epoch;
         this.lastFinishedComputation = computation;
 
@@ -237,6 +555,24 @@ export abstract class AsyncComputedFlowBase<T>
         this.onSourcesChanged();
     }
 
+    /**
+     * Publishes the data of a successfully finished computation.
+     *
+     * @param computation - The computation that has finished
+     * @param data - The computed data
+     * @returns The finished computation
+     */
+    protected handleComputationSuccess(computation: AsyncFlowComputation<T>, data: T): AsyncFlowComputation<T> {
+        // The result of a computation that has already failed, e.g. with a timeout, is ignored
+        if (!this.pendingComputations.includes(computation)) {
+            return computation;
+        }
+
+        computation.setValue(this.getSuccessValue(data));
+        this.onComputationFinished(computation);
+        return computation;
+    }
+
     /**
      * Handles computation errors and returns the appropriate state.
      *
@@ -245,6 +581,10 @@ export abstract class AsyncComputedFlowBase<T>
      * @returns An AsyncFlowComputation containing the computed value or error state
      */
     protected handleComputationError(computation: AsyncFlowComputation<T>, error: unknown): AsyncFlowComputation<T> {
+        if (!this.pendingComputations.includes(computation)) {
+            return computation;
+        }
+
         if (isAbortError(error)) {
             const prevComputation = this.getPreviousComputation(computation);
             if (prevComputation) {
@@ -258,17 +598,51 @@ export abstract class AsyncComputedFlowBase<T>
             };
             computation.setValue(state);
         } else {
+            const retryDelay = computation.aborted
+                ? null
+                : getRetryDelay(this.options?.retry, error, computation.attempt + 1);
+            if (retryDelay !== null) {
+                this.retryComputation(computation, retryDelay);
+                return computation;
+            }
+
+            const labelledError = this.labelError(error);
             computation.setValue({
                 status: "error",
-                error,
+                error: labelledError,
                 data: this.lastFinishedComputation?.getValue().data,
             });
+            this.onComputationFinished(computation);
+
+            // Errors rethrown from sources are reported by the flows whose getters raised them
+            if (!computation.isSourceError(error)) {
+                this.reportComputationError(labelledError);
+            }
+            return computation;
         }
 
         this.onComputationFinished(computation);
         return computation;
     }
 
+    /**
+     * Runs the getter again for the same computation after the delay, keeping the flow `pending`.
+     *
+     * @param computation - The computation that has failed
+     * @param retryDelay - The delay before the retry in milliseconds
+     */
+    private retryComputation(computation: AsyncFlowComputation<T>, retryDelay: number): void {
+        computation.attempt++;
+        delay(retryDelay, computation.signal).then(
+            () => {
+                this.computeAsync(computation);
+            },
+            (error: unknown) => {
+                this.handleComputationError(computation, error);
+            },
+        );
+    }
+
     /**
      * Finds the most recent computation to revert to when the current computation is aborted.
      *
@@ -298,10 +672,15 @@ export abstract class AsyncComputedFlowBase<T>
      * @param target - The computation to revert to
      */
     private revertComputation(current: AsyncFlowComputation<T>, target: AsyncFlowComputation<T>) {
+        // A cancelled computation has not observed the current sources,
+        // so they stay changed for the target computation and trigger recomputation on the next read
+        if (!current.aborted) {
+            target.updateSourcesValue();
+        }
+
         current.finalize();
+        current.cleanup();
         this.removePending(current);
-
-        target.updateSourcesValue();
         this.cachedComputation = target;
 
         const currentStatus = "pending"; // skipped computation always has a 'pending' status
@@ -312,6 +691,8 @@ export abstract class AsyncComputedFlowBase<T>
             // Notify flow consumers about the state reversion
             this.onSourcesChanged();
         }
+
+        this.runQueuedComputation();
     }
 
     /**
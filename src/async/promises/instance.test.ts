@@ -4,6 +4,10 @@ import type { AsyncFlow, AsyncFlowState, Flow } from "@tsip/types";
 import { validateAsyncFlowImplementation } from "@tsip/types/tests";
 import { describe, it, expect, vi, expectTypeOf, beforeEach, afterEach } from "vitest";
 import { AsyncComputedPromiseFlow } from "./instance";
+import type { AsyncConcurrency } from "../instance";
+import type { AsyncFlowComputationContext } from "../computation";
+import { ComputedFlow } from "../../sync/instance";
+import { CircularDependencyError } from "../../lib/circularDependencyError";
 
 describe("AsyncComputedPromiseFlow", () => {
     beforeEach(() => {
@@ -1265,6 +1269,38 @@ describe("AsyncComputedPromiseFlow", () => {
             expect(spy).toHaveBeenNthCalledWith(3, { status: "success", data: 1 });
             expect(spy).toHaveBeenCalledTimes(3);
         });
+
+        it("should finish in-flight computation when the last subscriber is removed", async () => {
+            const source = createFlow(0);
+            const resolvers: (() => void)[] = [];
+            const signals: AbortSignal[] = [];
+
+            const flow = new AsyncComputedPromiseFlow(async ({ watch, signal }) => {
+                const value = watch(source);
+                signals.push(signal);
+                await new Promise<void>((r) => resolvers.push(r));
+                signal.throwIfAborted();
+                return value;
+            });
+            const subscription = flow.subscribe(vi.fn());
+            resolvers[0]?.();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 0 });
+
+            source.emit(1);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+            expect(signals[1]?.aborted).toBe(false);
+
+            subscription.unsubscribe();
+            expect(signals[1]?.aborted).toBe(false);
+
+            // the result of the finished computation is reused by the next subscriber
+            resolvers[1]?.();
+            await nextTick();
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+            expect(signals).toHaveLength(2);
+        });
     });
 
     describe("asPromise behavior", () => {
@@ -1469,6 +1505,697 @@ describe("AsyncComputedPromiseFlow", () => {
         });
     });
 
+    describe("watch with selector", () => {
+        it("should rerun the getter only when the selected slice changes", async () => {
+            const source = createFlow({ name: "John", age: 30 });
+            const getter = vi.fn(async ({ watch }: AsyncFlowComputationContext) => {
+                return watch(source, (user) => user.name);
+            });
+            const flow = new AsyncComputedPromiseFlow(getter);
+            flow.subscribe(vi.fn());
+            await expect(flow.asPromise()).resolves.toBe("John");
+
+            source.emit({ name: "John", age: 31 });
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: "John" });
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit({ name: "Jane", age: 31 });
+            await expect(flow.asPromise()).resolves.toBe("Jane");
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("untracked reads", () => {
+        it("should not rerun the getter when peeked flows change", async () => {
+            const source = createFlow(1);
+            const config = createFlow("debug");
+            const getter = vi.fn(async ({ watch, peek, untracked }: AsyncFlowComputationContext) => {
+                return `${peek(config)}: ${untracked(() => watch(source)).toString()}`;
+            });
+            const flow = new AsyncComputedPromiseFlow(getter);
+            flow.subscribe(vi.fn());
+            await expect(flow.asPromise()).resolves.toBe("debug: 1");
+
+            config.emit("info");
+            source.emit(2);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: "debug: 1" });
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("cleanup", () => {
+        it("should call cleanup functions when the computation is aborted", async () => {
+            const source = createFlow(1);
+            const cleanups: number[] = [];
+            const flow = new AsyncComputedPromiseFlow(async ({ watch, onCleanup }) => {
+                const value = watch(source);
+                onCleanup(() => cleanups.push(value));
+                await nextTick();
+                return value;
+            });
+            flow.subscribe(vi.fn());
+            await expect(flow.asPromise()).resolves.toBe(1);
+
+            source.emit(2);
+            flow.getSnapshot();
+            source.emit(3);
+            flow.getSnapshot();
+            expect(cleanups).toEqual([1, 2]);
+
+            await expect(flow.asPromise()).resolves.toBe(3);
+            expect(cleanups).toEqual([1, 2]);
+        });
+
+        it("should call cleanup functions when the finished computation is replaced", async () => {
+            const source = createFlow(1);
+            const cleanups: number[] = [];
+            const flow = new AsyncComputedPromiseFlow(async ({ watch, onCleanup }) => {
+                const value = watch(source);
+                onCleanup(() => cleanups.push(value));
+                return value;
+            });
+            flow.subscribe(vi.fn());
+            await expect(flow.asPromise()).resolves.toBe(1);
+
+            source.emit(2);
+            flow.getSnapshot();
+            expect(cleanups).toEqual([1]);
+        });
+
+        it("should call cleanup functions registered after abort immediately", async () => {
+            const source = createFlow(1);
+            const cleanup = vi.fn();
+            const flow = new AsyncComputedPromiseFlow(async ({ watch, onCleanup }) => {
+                const value = watch(source);
+                await nextTick();
+                onCleanup(() => {
+                    cleanup(value);
+                });
+                return value;
+            });
+            flow.getSnapshot();
+            source.emit(2);
+            // the second computation aborts the first one
+            flow.getSnapshot();
+            expect(cleanup).not.toHaveBeenCalled();
+
+            await nextTick();
+            expect(cleanup).toHaveBeenCalledTimes(1);
+            expect(cleanup).toHaveBeenCalledWith(1);
+        });
+    });
+
+    describe("keepAlive", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should not abort in-flight computations within the grace period", async () => {
+            vi.useFakeTimers();
+            const signals: AbortSignal[] = [];
+            const flow = new AsyncComputedPromiseFlow(
+                async ({ signal }) => {
+                    signals.push(signal);
+                    await new Promise((resolve) => setTimeout(resolve, 100));
+                    return 1;
+                },
+                { keepAlive: 1000 },
+            );
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            expect(signals[0]?.aborted).toBe(false);
+
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(100);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+            expect(signals).toHaveLength(1);
+        });
+
+        it("should not abort in-flight computations after the grace period", async () => {
+            vi.useFakeTimers();
+            const signals: AbortSignal[] = [];
+            const flow = new AsyncComputedPromiseFlow(
+                async ({ signal }) => {
+                    signals.push(signal);
+                    await new Promise((resolve) => setTimeout(resolve, 5000));
+                    return 1;
+                },
+                { keepAlive: 1000 },
+            );
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(signals[0]?.aborted).toBe(false);
+
+            await vi.advanceTimersByTimeAsync(4000);
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+            expect(signals).toHaveLength(1);
+        });
+    });
+
+    describe("eager", () => {
+        it("should start the computation when sources change", async () => {
+            const source = createFlow(1);
+            const getter = vi.fn(async ({ watch }: AsyncFlowComputationContext) => watch(source) * 2);
+            const flow = new AsyncComputedPromiseFlow(getter, { eager: true });
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            await nextTick();
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit(2);
+            expect(getter).toHaveBeenCalledTimes(2);
+
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("retry", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should retry failed computations and stay pending", async () => {
+            vi.useFakeTimers();
+            const attempts: number[] = [];
+            const flow = new AsyncComputedPromiseFlow(
+                async ({ attempt }) => {
+                    attempts.push(attempt);
+                    if (attempt < 2) {
+                        throw new Error("Network error");
+                    }
+                    return "data";
+                },
+                { retry: { count: 3, delay: 100, jitter: false } },
+            );
+            flow.subscribe(vi.fn());
+
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: undefined });
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(attempts).toEqual([0, 1]);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: undefined });
+
+            await vi.advanceTimersByTimeAsync(200);
+            expect(attempts).toEqual([0, 1, 2]);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: "data" });
+        });
+
+        it("should publish the error after the last retry", async () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const getter = vi.fn(async ({ watch }: AsyncFlowComputationContext) => {
+                if (watch(source) === 2) {
+                    throw new Error("Network error");
+                }
+                return watch(source);
+            });
+            const flow = new AsyncComputedPromiseFlow(getter, { retry: { count: 2, delay: 100, jitter: false } });
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(0);
+
+            source.emit(2);
+            flow.getSnapshot();
+            await vi.advanceTimersByTimeAsync(300);
+
+            expect(getter).toHaveBeenCalledTimes(4);
+            expect(flow.getSnapshot()).toEqual({ status: "error", error: new Error("Network error"), data: 1 });
+        });
+
+        it("should not retry if shouldRetry returns false", async () => {
+            const shouldRetry = vi.fn(() => false);
+            const error = new Error("Fatal error");
+            const flow = new AsyncComputedPromiseFlow(
+                async () => {
+                    throw error;
+                },
+                { retry: { shouldRetry } },
+            );
+
+            await expect(flow.asPromise()).rejects.toThrow(error);
+            expect(shouldRetry).toHaveBeenCalledExactlyOnceWith(error, 1);
+        });
+
+        it("should stop retrying when the computation is superseded", async () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const getter = vi.fn(async ({ watch }: AsyncFlowComputationContext) => {
+                const value = watch(source);
+                if (value === 1) {
+                    throw new Error("Network error");
+                }
+                return value;
+            });
+            const flow = new AsyncComputedPromiseFlow(getter, { retry: { count: 5, delay: 100, jitter: false } });
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(150);
+            expect(getter).toHaveBeenCalledTimes(2);
+
+            source.emit(2);
+            flow.getSnapshot();
+            await vi.advanceTimersByTimeAsync(10_000);
+
+            expect(getter).toHaveBeenCalledTimes(3);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+        });
+
+        it("should stop retrying when the computation is superseded", async () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const getter = vi.fn(async ({ watch }: AsyncFlowComputationContext) => {
+                const value = watch(source);
+                if (value === 1) {
+                    throw new Error("Network error");
+                }
+                return value;
+            });
+            const flow = new AsyncComputedPromiseFlow(getter, { retry: { count: 5, delay: 100, jitter: false } });
+            flow.getSnapshot();
+            await vi.advanceTimersByTimeAsync(0);
+
+            source.emit(2);
+            flow.getSnapshot();
+            await vi.advanceTimersByTimeAsync(10_000);
+            expect(getter).toHaveBeenCalledTimes(2);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+        });
+    });
+
+    describe("timeout", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should fail the computation with a TimeoutError", async () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const signals: AbortSignal[] = [];
+            const flow = new AsyncComputedPromiseFlow(
+                async ({ watch, signal }) => {
+                    signals.push(signal);
+                    const value = watch(source);
+                    if (value === 2) {
+                        await new Promise(() => {
+                            // never settles
+                        });
+                    }
+                    return value;
+                },
+                { timeout: 1000 },
+            );
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+
+            source.emit(2);
+            const rejection = expect(flow.asPromise()).rejects.toThrow("Computation timed out after 1000ms");
+            await vi.advanceTimersByTimeAsync(999);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect(flow.getSnapshot()).toMatchObject({ status: "error", error: { name: "TimeoutError" }, data: 1 });
+            expect(signals[1]?.reason).toMatchObject({ name: "TimeoutError" });
+            await rejection;
+        });
+
+        it("should ignore the result of a timed out computation", async () => {
+            vi.useFakeTimers();
+            const flow = new AsyncComputedPromiseFlow(
+                async () => {
+                    await new Promise((resolve) => setTimeout(resolve, 2000));
+                    return 1;
+                },
+                { timeout: 1000 },
+            );
+            flow.subscribe(vi.fn());
+
+            await vi.advanceTimersByTimeAsync(3000);
+            expect(flow.getSnapshot()).toMatchObject({ status: "error" });
+        });
+
+        it("should not fail computations finished in time", async () => {
+            vi.useFakeTimers();
+            const flow = new AsyncComputedPromiseFlow(
+                async () => {
+                    await new Promise((resolve) => setTimeout(resolve, 500));
+                    return 1;
+                },
+                { timeout: 1000 },
+            );
+            flow.subscribe(vi.fn());
+
+            await vi.advanceTimersByTimeAsync(5000);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+        });
+
+        it("should reject watchAsync of a pending flow after the timeout", async () => {
+            vi.useFakeTimers();
+            const source = createAsyncFlow<number>({ status: "pending" });
+            const flow = new AsyncComputedPromiseFlow(async ({ watchAsync }) => {
+                return await watchAsync(source, { timeout: 500 });
+            });
+            flow.subscribe(vi.fn());
+
+            await vi.advanceTimersByTimeAsync(500);
+            expect(flow.getSnapshot()).toMatchObject({ status: "error", error: { name: "TimeoutError" } });
+
+            source.emit({ status: "success", data: 1 });
+            flow.getSnapshot();
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+        });
+    });
+
+    describe("concurrency", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        const createDelayedFlow = async (concurrency: AsyncConcurrency) => {
+            const source = createFlow(1);
+            const signals: AbortSignal[] = [];
+            const getter = vi.fn(async ({ watch, signal }: AsyncFlowComputationContext) => {
+                signals.push(signal);
+                const value = watch(source);
+                // Greater values are computed faster
+                await new Promise((resolve) => setTimeout(resolve, 1000 / value));
+                return value;
+            });
+            const flow = new AsyncComputedPromiseFlow(getter, { concurrency });
+            const subscription = flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+
+            return { source, flow, getter, signals, subscription };
+        };
+
+        it("should abort the previous computation with the switch strategy", async () => {
+            vi.useFakeTimers();
+            const { source, flow, getter, signals } = await createDelayedFlow("switch");
+
+            source.emit(2);
+            flow.getSnapshot();
+            source.emit(4);
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(3);
+            expect(signals[1]?.aborted).toBe(true);
+
+            await vi.advanceTimersByTimeAsync(250);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+        });
+
+        it("should ignore source changes while running with the exhaust strategy", async () => {
+            vi.useFakeTimers();
+            const { source, flow, getter, signals } = await createDelayedFlow("exhaust");
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            source.emit(4);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            expect(getter).toHaveBeenCalledTimes(2);
+            expect(signals[1]?.aborted).toBe(false);
+
+            // Sources have changed while running, so the flow is recomputed once
+            await vi.advanceTimersByTimeAsync(500);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 2 });
+            expect(getter).toHaveBeenCalledTimes(3);
+
+            await vi.advanceTimersByTimeAsync(250);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+            expect(getter).toHaveBeenCalledTimes(3);
+        });
+
+        it("should not recompute after the exhaust computation if sources haven't changed since it's run", async () => {
+            vi.useFakeTimers();
+            const { source, flow, getter } = await createDelayedFlow("exhaust");
+
+            source.emit(2);
+            flow.getSnapshot();
+
+            await vi.advanceTimersByTimeAsync(500);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should run computations one after another with the queue strategy", async () => {
+            vi.useFakeTimers();
+            const { source, flow, getter, signals } = await createDelayedFlow("queue");
+
+            source.emit(2);
+            flow.getSnapshot();
+            source.emit(4);
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(2);
+            expect(signals[1]?.aborted).toBe(false);
+            expect(flow.inspect().async?.pendingComputations).toBe(2);
+
+            await vi.advanceTimersByTimeAsync(500);
+            expect(getter).toHaveBeenCalledTimes(3);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 2 });
+
+            await vi.advanceTimersByTimeAsync(250);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+            expect(flow.inspect().async?.pendingComputations).toBe(0);
+        });
+
+        it("should coalesce source changes into one run started without a read with the queue strategy", async () => {
+            vi.useFakeTimers();
+
+            // Helper to emit several values while the second computation is running
+            const emitWhileRunning = async (concurrency: AsyncConcurrency) => {
+                const { source, flow, getter } = await createDelayedFlow(concurrency);
+                for (const value of [2, 3, 4]) {
+                    source.emit(value);
+                    flow.getSnapshot();
+                }
+                await vi.advanceTimersByTimeAsync(500);
+                return { flow, getter };
+            };
+
+            const queue = await emitWhileRunning("queue");
+            expect(queue.getter).toHaveBeenCalledTimes(3);
+            expect(queue.flow.inspect().async).toMatchObject({ status: "pending", pendingComputations: 1 });
+            await vi.advanceTimersByTimeAsync(250);
+            expect(queue.flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+            expect(queue.getter).toHaveBeenCalledTimes(3);
+
+            // The exhaust strategy recomputes only on the next read
+            const exhaust = await emitWhileRunning("exhaust");
+            expect(exhaust.getter).toHaveBeenCalledTimes(2);
+            expect(exhaust.flow.inspect().async).toMatchObject({ status: "success", pendingComputations: 0 });
+            expect(exhaust.flow.getSnapshot()).toEqual({ status: "pending", data: 2 });
+            expect(exhaust.getter).toHaveBeenCalledTimes(3);
+        });
+
+        it("should run queued computations after the last subscriber is removed", async () => {
+            vi.useFakeTimers();
+            const { source, flow, getter, subscription } = await createDelayedFlow("queue");
+
+            source.emit(2);
+            flow.getSnapshot();
+            source.emit(4);
+            flow.getSnapshot();
+            subscription.unsubscribe();
+
+            await vi.advanceTimersByTimeAsync(1000);
+            expect(getter).toHaveBeenCalledTimes(3);
+            expect(flow.inspect().async?.pendingComputations).toBe(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+        });
+
+        it("should ignore results of outdated computations with the parallel strategy", async () => {
+            vi.useFakeTimers();
+            const { source, flow, getter, signals } = await createDelayedFlow("parallel");
+
+            source.emit(2);
+            flow.getSnapshot();
+            source.emit(4);
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(3);
+            expect(signals[1]?.aborted).toBe(false);
+
+            await vi.advanceTimersByTimeAsync(250);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+
+            await vi.advanceTimersByTimeAsync(250);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+            expect(flow.inspect().async?.pendingComputations).toBe(0);
+        });
+
+        it("should publish data of previous computations while the latest one is running with the parallel strategy", async () => {
+            vi.useFakeTimers();
+            const { source, flow } = await createDelayedFlow("parallel");
+
+            source.emit(4);
+            flow.getSnapshot();
+            source.emit(2);
+            flow.getSnapshot();
+
+            await vi.advanceTimersByTimeAsync(250);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 4 });
+
+            await vi.advanceTimersByTimeAsync(250);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+        });
+    });
+
+    describe("refresh", () => {
+        it("should recompute the flow and resolve with the new data", async () => {
+            let version = 1;
+            const getter = vi.fn(async () => version);
+            const flow = new AsyncComputedPromiseFlow(getter);
+            await expect(flow.asPromise()).resolves.toBe(1);
+
+            version = 2;
+            const promise = flow.refresh();
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            await expect(promise).resolves.toBe(2);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should notify subscribers", async () => {
+            const flow = new AsyncComputedPromiseFlow(async () => 1);
+            const listener = vi.fn(() => {
+                flow.getSnapshot();
+            });
+            flow.subscribe(listener);
+            await nextTick();
+            listener.mockClear();
+
+            const promise = flow.refresh();
+            expect(listener).toHaveBeenCalledTimes(1);
+            await promise;
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+
+        it("should reject with the error of the computation", async () => {
+            let shouldFail = false;
+            const flow = new AsyncComputedPromiseFlow(async () => {
+                if (shouldFail) {
+                    throw new Error("Refresh error");
+                }
+                return 1;
+            });
+            await flow.asPromise();
+
+            shouldFail = true;
+            await expect(flow.refresh()).rejects.toThrow("Refresh error");
+            expect(flow.getSnapshot()).toMatchObject({ status: "error", data: 1 });
+        });
+
+        it("should recompute once the running computation is finished with the exhaust strategy", async () => {
+            let version = 1;
+            const resolvers: (() => void)[] = [];
+            const getter = vi.fn(async () => {
+                const value = version;
+                await new Promise<void>((resolve) => resolvers.push(resolve));
+                return value;
+            });
+            const flow = new AsyncComputedPromiseFlow(getter, { concurrency: "exhaust" });
+            flow.getSnapshot();
+
+            version = 2;
+            const promise = flow.refresh();
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            resolvers[0]?.();
+            await nextTick();
+            expect(getter).toHaveBeenCalledTimes(2);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            resolvers[1]?.();
+            await expect(promise).resolves.toBe(2);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should recompute the flow on the next read after invalidate", async () => {
+            const getter = vi.fn(async () => 1);
+            const flow = new AsyncComputedPromiseFlow(getter);
+            await flow.asPromise();
+
+            flow.invalidate();
+            expect(getter).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("implicit dependencies", () => {
+        it("should track computed flows read with getSnapshot in the synchronous part of getter", async () => {
+            const source = createFlow(1);
+            const doubled = new ComputedFlow(({ watch }) => watch(source) * 2);
+            const flow = new AsyncComputedPromiseFlow(async () => doubled.getSnapshot() + 1);
+
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 3 });
+
+            source.emit(2);
+            expect(listener).toHaveBeenCalledTimes(2);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 3 });
+
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 5 });
+        });
+
+        it("should track async computed flows awaited with asPromise", async () => {
+            const source = createAsyncFlow<number>({ status: "success", data: 1 });
+            const doubled = new AsyncComputedPromiseFlow(async ({ watchAsync }) => (await watchAsync(source)) * 2);
+            const flow = new AsyncComputedPromiseFlow(async () => (await doubled.asPromise()) + 1);
+
+            flow.subscribe(vi.fn());
+            await expect(flow.asPromise()).resolves.toBe(3);
+
+            source.emit({ status: "success", data: 2 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 3 });
+            await expect(flow.asPromise()).resolves.toBe(5);
+        });
+
+        it("should not track reads after the first await", async () => {
+            const source = createFlow(1);
+            const doubled = new ComputedFlow(({ watch }) => watch(source) * 2);
+            const getter = vi.fn(async () => {
+                await nextTick();
+                return doubled.getSnapshot();
+            });
+            const flow = new AsyncComputedPromiseFlow(getter);
+
+            flow.subscribe(vi.fn());
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("name", () => {
+        it("should wrap errors into an error with the name", async () => {
+            const error = new Error("test");
+            const flow = new AsyncComputedPromiseFlow<unknown>(
+                async () => {
+                    throw error;
+                },
+                { name: "failing" },
+            );
+
+            expect(flow.name).toBe("failing");
+            await expect(flow.asPromise()).rejects.toMatchObject({
+                message: 'Failed to compute flow "failing"',
+                cause: error,
+            });
+        });
+    });
+
     describe("custom equality", () => {
         it("should cache with custom result equality check", async () => {
             const id = createFlow("id-1");
@@ -1515,10 +2242,87 @@ describe("AsyncComputedPromiseFlow", () => {
     });
 
     describe("cycles detection", () => {
-        // detects trivial cycles
-        // detects slightly larger cycles
-        // detects depending on self
-        it("");
+        it("should detect trivial cycles", async () => {
+            const a: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => (await watchAsync(b)) + 1,
+                { name: "a" },
+            );
+            const b: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => (await watchAsync(a)) + 1,
+                { name: "b" },
+            );
+
+            await expect(a.asPromise()).rejects.toThrow(CircularDependencyError);
+            await expect(a.asPromise()).rejects.toThrow("Circular dependency detected: a -> b -> a");
+        });
+
+        it("should detect slightly larger cycles", async () => {
+            const a: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => (await watchAsync(b)) + 1,
+            );
+            const b: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => (await watchAsync(c)) + 1,
+            );
+            const c: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => (await watchAsync(a)) + 1,
+            );
+
+            await expect(a.asPromise()).rejects.toMatchObject({ path: [a, b, c, a] });
+        });
+
+        it("should detect depending on self", async () => {
+            const flow: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => (await watchAsync(flow)) + 1,
+                { name: "self" },
+            );
+
+            await expect(flow.asPromise()).rejects.toThrow("Circular dependency detected: self -> self");
+        });
+
+        it("should detect cycles closed after the first await", async () => {
+            const a: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => {
+                    await nextTick();
+                    return (await watchAsync(b)) + 1;
+                },
+                { name: "a" },
+            );
+            const b: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => (await watchAsync(a)) + 1,
+                { name: "b" },
+            );
+
+            await expect(a.asPromise()).rejects.toThrow("Circular dependency detected: a -> b -> a");
+            await expect(b.asPromise()).rejects.toThrow(CircularDependencyError);
+            expect(a.getSnapshot().status).toBe("error");
+            expect(b.getSnapshot().status).toBe("error");
+        });
+
+        it("should detect depending on self after the first await", async () => {
+            const flow: AsyncFlow<number> = new AsyncComputedPromiseFlow(
+                async ({ watchAsync }) => {
+                    await nextTick();
+                    return (await watchAsync(flow)) + 1;
+                },
+                { name: "self" },
+            );
+
+            await expect(flow.asPromise()).rejects.toThrow("Circular dependency detected: self -> self");
+        });
+
+        it("should not detect cycles in flows awaiting the same flow", async () => {
+            const source: AsyncFlow<number> = new AsyncComputedPromiseFlow(async () => {
+                await nextTick();
+                return 1;
+            });
+            const a = new AsyncComputedPromiseFlow(async ({ watchAsync }) => (await watchAsync(source)) + 1);
+            const b = new AsyncComputedPromiseFlow(async ({ watchAsync }) => {
+                await nextTick();
+                return (await watchAsync(a)) + (await watchAsync(source));
+            });
+
+            await expect(b.asPromise()).resolves.toBe(3);
+        });
     });
 
     describe("AsyncFlow interface", () => {
@@ -44,23 +44,21 @@ export class AsyncComputedPromiseFlow<T> extends AsyncComputedFlowBase<T> implem
      * @returns An AsyncFlowComputation containing the computed value or error state
      */
     protected computeAsync(computation: AsyncFlowComputation<T>) {
-        tracker.start();
         try {
-            this.getter(computation.getContext()).then(
-                (data) => {
-                    computation.setValue(this.getSuccessValue(data));
-                    this.onComputationFinished(computation);
-                },
-                (error: unknown) => {
-                    this.handleComputationError(computation, error);
-                },
-            );
+            // Only the synchronous part of the getter (before the first `await`) is tracked implicitly
+            tracker
+                .run(computation, () => this.getter(computation.getContext()))
+                .then(
+                    (data) => {
+                        this.handleComputationSuccess(computation, data);
+                    },
+                    (error: unknown) => {
+                        this.handleComputationError(computation, error);
+                    },
+                );
             return computation;
         } catch (err) {
             return this.handleComputationError(computation, err);
-        } finally {
-            // todo: finalize here to stop adding new sources
-            tracker.stop();
         }
     }
 }
@@ -1,4 +1,7 @@
 import type { Flow, FlowSubscription } from "@tsip/types";
+import { scheduler } from "../lib/scheduler";
+import { tracker } from "../lib/tracker";
+import { CircularDependencyError } from "../lib/circularDependencyError";
 
 /**
  * Represents a cached value from a flow, which can be either successful or an error.
@@ -6,6 +9,21 @@ import type { Flow, FlowSubscription } from "@tsip/types";
  */
 type SourceCachedValue = { type: "success"; value: unknown } | { type: "error"; error: unknown };
 
+/**
+ * A slice of a flow value read with a selector, along with the last selected value.
+ * @internal
+ */
+interface SourceSelection {
+    /** The function that selects the slice from the flow value */
+    select: (value: unknown) => unknown;
+
+    /** The function that compares selected values */
+    equals: (a: unknown, b: unknown) => boolean;
+
+    /** The last selected value, or the error thrown by the flow or the selector */
+    cached: SourceCachedValue;
+}
+
 /**
  * Abstract base class for flow computations that manages dependencies,
  * subscriptions, and cached values.
@@ -13,7 +31,6 @@ type SourceCachedValue = { type: "success"; value: unknown } | { type: "error";
  * @typeParam T - The type of value this computation produces
  * @typeParam C - The type of context for computation function
  */
-// eslint-disable-next-line @typescript-eslint/no-unnecessary-type-parameters
 export abstract class FlowComputationBase<T, C> {
     /** Set of flows that this computation depends on */
     private sources = new Set<Flow<unknown>>();
@@ -21,12 +38,24 @@ export abstract class FlowComputationBase<T, C> {
     /** Cache of the last known values from each source */
     private lastValues = new Map<Flow<unknown>, SourceCachedValue>();
 
+    /** Slices of sources read with selectors, used for change detection of sources that are not read as a whole */
+    private selections = new Map<Flow<unknown>, SourceSelection[]>();
+
+    /** Errors thrown by sources when they were read, as opposed to errors raised by the getter itself */
+    private sourceErrors = new Set<unknown>();
+
     /** Active subscriptions to sources */
     private subscriptions: FlowSubscription[] = [];
 
     /** Whether the computation has been finalized (no more sources can be added) */
     protected finalized = false;
 
+    /** The number of running {@link untracked} calls, flows read inside them are not added as sources */
+    private untrackedDepth = 0;
+
+    /** Functions registered with {@link onCleanup}, or `null` if the computation has been cleaned up */
+    private cleanups: (() => void)[] | null = [];
+
     /** The current computed value, wrapped in an object for handling undefined values */
     protected value: { current: T } | null = null;
 
@@ -104,18 +133,66 @@ export abstract class FlowComputationBase<T, C> {
         this.lastValues.set(flow, { type: "error", error });
     }
 
+    /**
+     * Remembers an error thrown by a source when it was read.
+     *
+     * @param error - The error thrown by the source
+     */
+    protected addSourceError(error: unknown): void {
+        this.sourceErrors.add(error);
+    }
+
+    /**
+     * Checks whether an error was thrown by a source when it was read,
+     * i.e. the getter has rethrown it instead of raising its own error.
+     *
+     * @param error - The error thrown by the getter
+     * @returns `true` if the error comes from a source, `false` otherwise
+     */
+    public isSourceError(error: unknown): boolean {
+        return this.sourceErrors.has(error);
+    }
+
     /**
      * Subscribes to all collected source flows with the provided handler.
      *
+     * Subscriptions are made through the {@link scheduler}, so that the handler is called
+     * within the propagation wave of the source change.
+     *
      * @param handler - Callback function to execute when sources change
      */
     public subscribeToSources(handler: () => void): void {
         for (const flow of this.sources) {
-            const subscription = flow.subscribe(handler);
+            const subscription = scheduler.subscribe(flow, handler);
             this.subscriptions.push(subscription);
         }
     }
 
+    /**
+     * Returns the flows this computation depends on.
+     *
+     * @returns The list of source flows
+     */
+    public getSources(): Flow<unknown>[] {
+        return [...this.sources];
+    }
+
+    /**
+     * Calculates the topological height of this computation in the flow graph.
+     *
+     * The height is one more than the highest height among the sources,
+     * so a computation is always notified after all of its sources.
+     *
+     * @returns The height of the computation
+     */
+    public getHeight(): number {
+        let height = 0;
+        for (const flow of this.sources) {
+            height = Math.max(height, scheduler.getHeight(flow));
+        }
+        return height + 1;
+    }
+
     /**
      * Marks the computation as finalized, preventing new sources from being added.
      */
@@ -123,11 +200,74 @@ export abstract class FlowComputationBase<T, C> {
         this.finalized = true;
     }
 
+    /**
+     * Registers a function that releases resources allocated by the computation.
+     *
+     * If the computation has already been cleaned up, the function is called immediately.
+     *
+     * @param fn - The cleanup function
+     */
+    protected onCleanup(fn: () => void): void {
+        if (this.cleanups) {
+            this.cleanups.push(fn);
+        } else {
+            runCleanup(fn);
+        }
+    }
+
+    /**
+     * Whether functions registered with {@link onCleanup} are waiting to be called.
+     *
+     * @returns `true` if the computation holds resources that are released by {@link cleanup}
+     */
+    public hasCleanups(): boolean {
+        return this.cleanups !== null && this.cleanups.length > 0;
+    }
+
+    /**
+     * Calls the functions registered with {@link onCleanup}.
+     * It's called when the computation is disposed, aborted or replaced by a newer computation.
+     */
+    public cleanup(): void {
+        const cleanups = this.cleanups;
+        this.cleanups = null;
+
+        for (const fn of cleanups ?? []) {
+            runCleanup(fn);
+        }
+    }
+
+    /**
+     * Whether the functions registered with {@link onCleanup} have already been called.
+     *
+     * @returns `true` if the resources of the computation have been released
+     */
+    public isCleanedUp(): boolean {
+        return this.cleanups === null;
+    }
+
+    /**
+     * Takes over the cleanup functions of another computation whose value is reused by this computation,
+     * and calls the cleanup functions registered by this computation, since its own value is discarded.
+     *
+     * @param computation - The computation whose value is reused
+     */
+    public reuseCleanups(computation: FlowComputationBase<T, C>): void {
+        const cleanups = this.cleanups;
+        this.cleanups = computation.cleanups;
+        computation.cleanups = [];
+
+        for (const fn of cleanups ?? []) {
+            runCleanup(fn);
+        }
+    }
+
     /**
      * Prepares the object for garbage collection by cleaning up subscriptions and references.
      */
     public dispose(): void {
         this.finalize();
+        this.cleanup();
 
         for (const subscription of this.subscriptions) {
             subscription.unsubscribe();
@@ -140,24 +280,26 @@ export abstract class FlowComputationBase<T, C> {
     /**
      * Checks if a flow has changed since we last cached its value.
      *
+     * Flows read only with selectors are considered changed if any of the selected slices has changed.
+     *
      * @param source - The source flow to check for changes
      * @returns `true` if the source has changed, `false` otherwise
      */
     private hasSourceChanged(source: Flow<unknown>): boolean {
         const lastValue = this.lastValues.get(source);
-        if (!lastValue) {
-            return true;
+        if (lastValue) {
+            return hasCachedValueChanged(lastValue, () => source.getSnapshot(), Object.is);
         }
 
-        try {
-            const currentValue = source.getSnapshot();
-            if (lastValue.type === "success") {
-                return !Object.is(currentValue, lastValue.value);
-            }
-        } catch (err) {
-            if (lastValue.type === "error") {
-                return !Object.is(err, lastValue.error);
-            }
+        const selections = this.selections.get(source);
+        if (selections) {
+            return selections.some((selection) => {
+                return hasCachedValueChanged(
+                    selection.cached,
+                    () => selection.select(source.getSnapshot()),
+                    selection.equals,
+                );
+            });
         }
 
         return true;
@@ -199,22 +341,134 @@ export abstract class FlowComputationBase<T, C> {
      * @throws The flow's error if it's in an error state
      */
     protected readFlow<T>(flow: Flow<T>): T {
+        // The flow is registered explicitly, so the read is not reported to the tracker
+        return this.track(flow, () => tracker.untracked(() => flow.getSnapshot()));
+    }
+
+    /**
+     * Reads a slice of the current value of a flow and establishes the flow as a dependency.
+     *
+     * Unlike {@link readFlow}, the flow is considered changed only when the selected slice changes.
+     *
+     * @typeParam T - The type of value the flow produces
+     * @typeParam S - The type of the selected slice
+     * @param flow - The flow to read from
+     * @param selector - The function that selects the slice from the flow value
+     * @param equals - The function that compares selected slices
+     * @returns The selected slice of the current value of the flow
+     * @throws The flow's error if it's in an error state, or the error thrown by the selector
+     */
+    protected readFlowSlice<T, S>(flow: Flow<T>, selector: (value: T) => S, equals: (a: S, b: S) => boolean): S {
+        if (this.untrackedDepth > 0) {
+            return tracker.untracked(() => selector(flow.getSnapshot()));
+        }
+
+        this.addSource(flow);
+
+        const selection: SourceSelection = {
+            select: selector as (value: unknown) => unknown,
+            equals: equals as (a: unknown, b: unknown) => boolean,
+            cached: { type: "error", error: undefined },
+        };
+
+        try {
+            // Neither the flow nor the flows read by the selector are reported to the tracker
+            const value = tracker.untracked(() => selector(flow.getSnapshot()));
+            selection.cached = { type: "success", value };
+            return value;
+        } catch (err) {
+            if (err instanceof CircularDependencyError) {
+                this.sources.delete(flow);
+                this.lastValues.delete(flow);
+                this.selections.delete(flow);
+                throw err;
+            }
+
+            selection.cached = { type: "error", error: err };
+            if (isThrownBy(flow, err)) {
+                this.addSourceError(err);
+            }
+            throw err;
+        } finally {
+            if (this.sources.has(flow)) {
+                const selections = this.selections.get(flow) ?? [];
+                selections.push(selection);
+                this.selections.set(flow, selections);
+            }
+        }
+    }
+
+    /**
+     * Establishes a flow as a dependency using the value obtained by the provided function.
+     *
+     * It's used by {@link readFlow} and by the {@link tracker} for flows read implicitly inside a getter.
+     *
+     * @typeParam T - The type of value the flow produces
+     * @param flow - The flow to register as a dependency
+     * @param read - The function that reads the current value of the flow
+     * @returns The current value of the flow
+     * @throws The flow's error if it's in an error state
+     */
+    public track<T>(flow: Flow<T>, read: () => T): T {
+        if (this.untrackedDepth > 0) {
+            return read();
+        }
+
         // Register the flow as a dependency
         this.addSource(flow);
 
         try {
-            const value = flow.getSnapshot();
+            const value = read();
             // Store the successful value for dependency tracking
             this.setSourceValue(flow, value);
             return value;
         } catch (err) {
+            if (err instanceof CircularDependencyError) {
+                // The flow closing the cycle is not registered as a dependency,
+                // otherwise the flows in the cycle would keep notifying each other
+                this.sources.delete(flow);
+                this.lastValues.delete(flow);
+                this.selections.delete(flow);
+                throw err;
+            }
+
             // Store the error for dependency tracking
             this.setSourceError(flow, err);
+            this.addSourceError(err);
             // Re-throw to maintain error propagation
             throw err;
         }
     }
 
+    /**
+     * Reads the current value from a flow without establishing it as a dependency.
+     *
+     * @typeParam T - The type of value the flow produces
+     * @param flow - The flow to read from
+     * @returns The current value of the flow
+     * @throws The flow's error if it's in an error state
+     */
+    protected peek<T>(flow: Flow<T>): T {
+        return this.untracked(() => flow.getSnapshot());
+    }
+
+    /**
+     * Runs a function without establishing the flows read inside it as dependencies,
+     * either with `watch` or implicitly with `getSnapshot`.
+     *
+     * @typeParam R - The return type of the function
+     * @param fn - The function to run
+     * @returns The result of the function
+     */
+    protected untracked<R>(fn: () => R): R {
+        this.untrackedDepth++;
+        try {
+            return tracker.untracked(fn);
+        } finally {
+            this.untrackedDepth--;
+        }
+    }
+
     /**
      * Cancels the current computation by throwing an abort signal.
      *
@@ -233,11 +487,78 @@ export abstract class FlowComputationBase<T, C> {
      */
     public updateSourcesValue(): void {
         for (const source of this.sources) {
-            try {
-                this.readFlow(source);
-            } catch {
-                // do nothing
+            if (this.lastValues.has(source)) {
+                try {
+                    this.readFlow(source);
+                } catch {
+                    // do nothing
+                }
+            }
+
+            for (const selection of this.selections.get(source) ?? []) {
+                try {
+                    const value = tracker.untracked(() => selection.select(source.getSnapshot()));
+                    selection.cached = { type: "success", value };
+                } catch (err) {
+                    selection.cached = { type: "error", error: err };
+                }
             }
         }
     }
 }
+
+/**
+ * Calls a cleanup function, logging the error it throws.
+ *
+ * @param fn - The cleanup function
+ */
+function runCleanup(fn: () => void): void {
+    try {
+        fn();
+    } catch (error) {
+        console.error(new Error("Failed to run cleanup function", { cause: error }));
+    }
+}
+
+/**
+ * Checks if a cached value of a source differs from the current one.
+ *
+ * @param cached - The cached value or error
+ * @param read - The function that reads the current value
+ * @param equals - The function that compares successful values
+ * @returns `true` if the value has changed, `false` otherwise
+ */
+function hasCachedValueChanged(
+    cached: SourceCachedValue,
+    read: () => unknown,
+    equals: (a: unknown, b: unknown) => boolean,
+): boolean {
+    try {
+        const currentValue = tracker.untracked(read);
+        if (cached.type === "success") {
+            return !equals(cached.value, currentValue);
+        }
+    } catch (err) {
+        if (cached.type === "error") {
+            return !Object.is(err, cached.error);
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Checks if an error is the one thrown by reading a flow, rather than by a function applied to its value.
+ *
+ * @param flow - The flow to read
+ * @param error - The error to check
+ * @returns `true` if reading the flow throws the error, `false` otherwise
+ */
+function isThrownBy(flow: Flow<unknown>, error: unknown): boolean {
+    try {
+        tracker.untracked(() => flow.getSnapshot());
+        return false;
+    } catch (err) {
+        return Object.is(err, error);
+    }
+}
@@ -1,5 +1,10 @@
 import type { FlowSubscription } from "@tsip/types";
 import type { FlowComputationBase } from "./computation";
+import type { FlowInspection } from "../lib/inspect";
+import { scheduler } from "../lib/scheduler";
+import { tracker } from "../lib/tracker";
+import { CircularDependencyError } from "../lib/circularDependencyError";
+import { getGlobalErrorHandlers, type FlowErrorHandlers } from "../lib/config";
 
 /**
  * Internal subscription object that extends the public FlowSubscription interface.
@@ -17,6 +22,40 @@ export interface Subscription extends FlowSubscription {
     listener: () => void;
 }
 
+/**
+ * Configuration options shared by all computed flows.
+ */
+export interface ComputedFlowBaseOptions extends FlowErrorHandlers {
+    /**
+     * The debug label of the flow, used in error messages and reported by {@link inspect}.
+     */
+    name?: string;
+
+    /**
+     * How long the flow keeps tracking its sources after the last subscriber is removed.
+     *
+     * A number is the grace period in milliseconds, `true` keeps the flow active forever,
+     * and `false` or `0` stops tracking immediately.
+     *
+     * @default false
+     */
+    keepAlive?: number | boolean;
+
+    /**
+     * Whether the flow recomputes as soon as its sources change while it's subscribed,
+     * instead of waiting for the next read.
+     *
+     * @default false
+     */
+    eager?: boolean;
+}
+
+/**
+ * Stack of computed flows whose values are currently being computed or checked for changes.
+ * It's used to report the path of a circular dependency.
+ */
+const computingFlows: ComputedFlowBase<unknown, FlowComputationBase<unknown, unknown>>[] = [];
+
 /**
  * Abstract base class for computed flows that provides subscription management
  * and value caching functionality.
@@ -63,11 +102,63 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
      */
     private isDirty = true;
 
+    /**
+     * Indicates whether the flow has been invalidated and must be recomputed on the next read,
+     * even if its sources haven't changed.
+     */
+    private isStale = false;
+
+    /**
+     * Indicates whether the flow's value is currently being computed or checked for changes.
+     * Reading the flow in this state means that the flow depends on itself.
+     */
+    private isComputing = false;
+
     /**
      * Set of listener functions that are called when the value changes.
      */
     private subscriptions: ReadonlySet<Subscription> = new Set<Subscription>();
 
+    /**
+     * Timer of the grace period after the last subscriber is removed, if it's running.
+     */
+    private keepAliveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * The debug label of the flow, used in error messages and reported by {@link inspect}.
+     */
+    public readonly name: string | undefined;
+
+    /**
+     * How long the flow keeps tracking its sources after the last subscriber is removed.
+     */
+    private readonly keepAlive: number | boolean;
+
+    /**
+     * Whether the flow recomputes as soon as its sources change while it's subscribed.
+     */
+    private readonly eager: boolean;
+
+    /**
+     * Error handlers of this flow, taking precedence over the global ones.
+     */
+    private readonly errorHandlers: FlowErrorHandlers;
+
+    /**
+     * Creates a new computed flow.
+     *
+     * @param options - Optional configuration shared by all computed flows
+     */
+    public constructor(options?: ComputedFlowBaseOptions) {
+        this.name = options?.name;
+        this.keepAlive = options?.keepAlive ?? false;
+        this.eager = options?.eager ?? false;
+        this.errorHandlers = {
+            onListenerError: options?.onListenerError,
+            onComputationError: options?.onComputationError,
+        };
+    }
+
     /**
      * Subscribes to changes in the flow.
      *
@@ -97,28 +188,39 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
         const subscription: Subscription = {
             listener,
             unsubscribe: () => {
+                // Repeated calls are ignored
+                if (!this.subscriptions.has(subscription)) {
+                    return;
+                }
+
                 const subscriptions = new Set(this.subscriptions);
                 subscriptions.delete(subscription);
                 this.subscriptions = subscriptions;
 
                 // Stop listening to sources when the last subscriber is removed
-                if (this.subscriptions.size === 0 && this.activeComputation) {
-                    this.hasListeners = false;
-                    this.activeComputation.dispose();
-                    this.activeComputation = null;
+                if (this.subscriptions.size === 0 && this.hasListeners) {
+                    this.scheduleDeactivation();
                 }
             },
         };
 
+        // A new subscriber within the grace period keeps the current sources subscription
+        if (this.keepAliveTimer !== null) {
+            clearTimeout(this.keepAliveTimer);
+            this.keepAliveTimer = null;
+        }
+
         if (!this.hasListeners) {
             this.hasListeners = true;
 
-            if (this.cachedComputation) {
+            if (this.cachedComputation && !this.isStale) {
                 this.subscribeToSources(this.cachedComputation);
             } else {
                 // If there were no previous computations, it means we were not tracking the flow sources
-                // We need to perform a computation to determine the current list of sources for subscription
-                this.cachedComputation = this.compute();
+                // We need to perform a computation to determine the current list of sources for subscription.
+                // A stale value, e.g. the one whose resources were released on deactivation, is recomputed too
+                this.isStale = false;
+                this.cachedComputation = this.detectCycles(() => this.compute());
                 this.isDirty = false;
             }
         }
@@ -130,6 +232,79 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
         return subscription;
     }
 
+    /**
+     * Stops tracking sources, either immediately or after the grace period of the `keepAlive` option.
+     */
+    private scheduleDeactivation(): void {
+        if (this.keepAlive === true) {
+            return;
+        }
+
+        if (!this.keepAlive) {
+            this.deactivate();
+            return;
+        }
+
+        if (this.keepAliveTimer !== null) {
+            clearTimeout(this.keepAliveTimer);
+        }
+        this.keepAliveTimer = setTimeout(() => {
+            this.keepAliveTimer = null;
+            this.deactivate();
+        }, this.keepAlive);
+    }
+
+    /**
+     * Unsubscribes from sources and releases the resources of the active computation.
+     */
+    private deactivate(): void {
+        this.hasListeners = false;
+        if (this.activeComputation) {
+            // The value whose resources are released can't be served anymore
+            if (this.activeComputation === this.cachedComputation && this.activeComputation.hasCleanups()) {
+                this.isStale = true;
+            }
+            this.activeComputation.dispose();
+            this.activeComputation = null;
+        }
+        this.onDeactivated();
+    }
+
+    /**
+     * Marks the flow as stale, so that it's recomputed on the next read even if its sources haven't changed.
+     * Subscribers are notified about the change, like when a source changes.
+     */
+    protected markStale(): void {
+        this.isStale = true;
+        this.onSourcesChanged();
+    }
+
+    /**
+     * Checks whether the flow has active subscribers.
+     *
+     * @returns `true` if there is at least one subscriber, `false` otherwise
+     */
+    public hasSubscribers(): boolean {
+        return this.subscriptions.size > 0;
+    }
+
+    /**
+     * Returns a snapshot of the internal state of the flow without triggering a computation.
+     * Use {@link inspect} to inspect any flow.
+     *
+     * @returns The state of the flow, except for the family parameter reported by {@link inspect}
+     */
+    public inspect(): Omit<FlowInspection, "family"> {
+        const computation = this.activeComputation ?? this.cachedComputation;
+        return {
+            sources: computation?.getSources() ?? [],
+            name: this.name ?? null,
+            subscribers: this.subscriptions.size,
+            dirty: this.isDirty,
+            async: null,
+        };
+    }
+
     /**
      * Returns the current value of the flow.
      *
@@ -137,6 +312,9 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
      * subscribing to changes. It's safe to call at any time and will always
      * return the most recent value.
      *
+     * When called inside a getter of another computed flow, the read is tracked
+     * as a dependency of that flow, the same way as with `ctx.watch`.
+     *
      * @returns The current value
      *
      * @example
@@ -150,12 +328,48 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
      * ```
      */
     public getSnapshot(): T {
-        if (!this.cachedComputation || this.shouldRecompute()) {
-            this.cachedComputation = this.compute();
+        // Register the read in the computation whose getter is currently running, if any
+        return tracker.track(this, () => {
+            return this.detectCycles(() => {
+                if (!this.cachedComputation || this.shouldRecompute()) {
+                    this.isStale = false;
+                    const previousComputation = this.cachedComputation;
+                    this.cachedComputation = this.compute();
+
+                    // Release resources of the replaced computation
+                    if (previousComputation !== this.cachedComputation) {
+                        previousComputation?.cleanup();
+                    }
+                }
+
+                this.isDirty = false;
+                return this.cachedComputation.getValue();
+            });
+        });
+    }
+
+    /**
+     * Runs a function that computes the flow's value or checks its sources for changes, detecting circular dependencies.
+     *
+     * @typeParam R - The return type of the function
+     * @param fn - The function to run
+     * @returns The result of the function
+     * @throws {CircularDependencyError} If the flow is read while its value is being computed, i.e. it depends on itself
+     */
+    private detectCycles<R>(fn: () => R): R {
+        if (this.isComputing) {
+            const index = computingFlows.indexOf(this);
+            throw new CircularDependencyError([...computingFlows.slice(index), this]);
         }
 
-        this.isDirty = false;
-        return this.cachedComputation.getValue();
+        this.isComputing = true;
+        computingFlows.push(this);
+        try {
+            return fn();
+        } finally {
+            computingFlows.pop();
+            this.isComputing = false;
+        }
     }
 
     /**
@@ -168,12 +382,39 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
         // 1. If we're not currently tracking sources, the cached value might be stale,
         //    so we need to check the current values in sources (hasListeners flag)
         // 2. If sources have changed since the last run (isDirty flag)
+        // 3. If the flow has been invalidated manually (isStale flag)
         return (
-            (!this.hasListeners || this.isDirty) &&
-            (!this.cachedComputation || this.cachedComputation.sourcesHasBeenChanged())
+            this.isStale ||
+            ((!this.hasListeners || this.isDirty) &&
+                (!this.cachedComputation || this.cachedComputation.sourcesHasBeenChanged()))
         );
     }
 
+    /**
+     * Wraps an error thrown by the getter into an error labelled with the name of the flow.
+     * Errors of flows without a name are returned as is.
+     *
+     * Errors of named flows that read each other form a `cause` chain from the outermost flow to the original error.
+     * A {@link CircularDependencyError} is returned as is, since it already lists the names of the flows.
+     *
+     * @param error - The error thrown by the getter
+     * @returns The labelled error
+     */
+    protected labelError(error: unknown): unknown {
+        if (this.name === undefined || error instanceof CircularDependencyError) {
+            return error;
+        }
+        return new Error(`Failed to compute flow "${this.name}"`, { cause: error });
+    }
+
+    /**
+     * Called when the last subscriber is removed and the flow stops tracking its sources.
+     * Subclasses can override this method to release resources held while the flow is subscribed.
+     */
+    protected onDeactivated(): void {
+        // noop
+    }
+
     /**
      * Abstract method for computing the flow's value.
      * Must be implemented by subclasses to define the computation logic.
@@ -215,6 +456,7 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
         });
 
         this.activeComputation = computation;
+        scheduler.setHeight(this, computation.getHeight());
     }
 
     /**
@@ -229,14 +471,77 @@ export abstract class ComputedFlowBase<T, FlowComputation extends FlowComputatio
 
     /**
      * Notifies all subscribers about changes in the flow's value.
+     *
+     * The notification is delivered by the {@link scheduler} after all flows affected by the same
+     * source change have been marked as dirty, and after all flows this flow depends on have been notified.
      */
     protected notify(): void {
+        scheduler.schedule(this, () => {
+            if (this.eager && this.hasListeners) {
+                this.recomputeEagerly();
+            }
+            this.notifyListeners();
+        });
+    }
+
+    /**
+     * Recomputes the value of an eager flow before its listeners are notified.
+     */
+    private recomputeEagerly(): void {
+        try {
+            tracker.untracked(() => this.getSnapshot());
+        } catch {
+            // The error is stored in the computation and is thrown to the listeners reading the flow
+        }
+    }
+
+    /**
+     * Calls all listeners of the flow.
+     *
+     * An error thrown by the `onListenerError` handler doesn't stop calling the other listeners.
+     * The first such error is rethrown once all listeners are called.
+     */
+    private notifyListeners(): void {
+        let hasError = false;
+        let firstError: unknown;
+
         for (const subscription of this.subscriptions) {
             try {
                 subscription.listener();
             } catch (error) {
-                console.error(new Error("Failed to call flow listener", { cause: error }));
+                const onListenerError = this.errorHandlers.onListenerError ?? getGlobalErrorHandlers().onListenerError;
+                if (onListenerError) {
+                    try {
+                        onListenerError(error, this);
+                    } catch (handlerError) {
+                        if (!hasError) {
+                            hasError = true;
+                            firstError = handlerError;
+                        }
+                    }
+                    continue;
+                }
+
+                const message =
+                    this.name === undefined
+                        ? "Failed to call flow listener"
+                        : `Failed to call listener of flow "${this.name}"`;
+                console.error(new Error(message, { cause: error }));
             }
         }
+
+        if (hasError) {
+            throw firstError;
+        }
+    }
+
+    /**
+     * Reports an error thrown by the getter to the `onComputationError` handler, if any.
+     *
+     * @param error - The error stored in the flow
+     */
+    protected reportComputationError(error: unknown): void {
+        const onComputationError = this.errorHandlers.onComputationError ?? getGlobalErrorHandlers().onComputationError;
+        onComputationError?.(error, this);
     }
 }
@@ -1,10 +1,29 @@
 export { computedFlow, type ComputedFlowOptions } from "./sync/factory";
+export type { InvalidatableFlow } from "./sync/instance";
 export type { FlowComputationContext } from "./sync/computation";
+export { writableComputedFlow, WritableComputedFlow, type WritableComputedFlowAccessors } from "./sync/writable";
+export { effect, type EffectCallback, type EffectCleanup, type EffectContext } from "./sync/effect";
 
 export { asyncComputedFlow, type AsyncComputedFlowOptions } from "./async/factory";
 export type { AsyncFlowComputationContext } from "./async/computation";
+export type { AsyncConcurrency, RefreshableAsyncFlow } from "./async/instance";
+
+export { batch } from "./lib/batch";
+export { CircularDependencyError } from "./lib/circularDependencyError";
+export { configure, type FlowErrorHandlers } from "./lib/config";
+export type { FlowFamily } from "./lib/flowFamily";
+export type { CacheOptions } from "./lib/memoize";
+export type { RetryOptions } from "./lib/retry";
+export { structuralKey } from "./lib/structuralKey";
+export { suspend } from "./lib/suspend";
+export { inspect, type FlowInspection, type AsyncFlowInspection } from "./lib/inspect";
 
 export { mapFlow } from "./utils/mapFlow";
 export { mapAsyncFlow } from "./utils/mapAsyncFlow";
 export { filterFlow } from "./utils/filterFlow";
 export { filterAsyncFlow } from "./utils/filterAsyncFlow";
+export { debounce } from "./utils/debounce";
+export { throttle, type ThrottleOptions } from "./utils/throttle";
+export { takeLatest } from "./utils/takeLatest";
+export { takeFirst } from "./utils/takeFirst";
+export { takeEvery } from "./utils/takeEvery";
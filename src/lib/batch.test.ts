@@ -0,0 +1,104 @@
+import { createFlow } from "@tsip/flow";
+import { describe, it, expect, vi, expectTypeOf } from "vitest";
+import { batch } from "./batch";
+import { ComputedFlow } from "../sync/instance";
+
+describe("batch", () => {
+    it("should infer return type", () => {
+        expectTypeOf(batch(() => 123)).toEqualTypeOf<number>();
+        expectTypeOf(batch(() => ({ value: "foo" }))).toEqualTypeOf<{ value: string }>();
+    });
+
+    it("should return the result of the function", () => {
+        expect(batch(() => "result")).toBe("result");
+    });
+
+    it("should notify subscribers once after the batch", () => {
+        const firstName = createFlow("John");
+        const lastName = createFlow("Doe");
+        const fullName = new ComputedFlow((ctx) => `${ctx.watch(firstName)} ${ctx.watch(lastName)}`);
+
+        const values: string[] = [];
+        fullName.subscribe(() => {
+            values.push(fullName.getSnapshot());
+        });
+
+        batch(() => {
+            firstName.emit("Jane");
+            expect(values).toEqual([]);
+
+            lastName.emit("Smith");
+            expect(values).toEqual([]);
+        });
+
+        expect(values).toEqual(["Jane Smith"]);
+    });
+
+    it("should flush after the outermost batch", () => {
+        const source = createFlow(1);
+        const flow = new ComputedFlow((ctx) => ctx.watch(source) * 2);
+        const listener = vi.fn();
+        flow.subscribe(listener);
+
+        batch(() => {
+            batch(() => {
+                source.emit(2);
+            });
+            expect(listener).not.toHaveBeenCalled();
+
+            source.emit(3);
+        });
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(flow.getSnapshot()).toBe(6);
+    });
+
+    it("should notify each dirty flow once", () => {
+        const a = createFlow(1);
+        const b = createFlow(2);
+        const sum = new ComputedFlow((ctx) => ctx.watch(a) + ctx.watch(b));
+        const product = new ComputedFlow((ctx) => ctx.watch(a) * ctx.watch(b));
+        const sumListener = vi.fn();
+        const productListener = vi.fn();
+        sum.subscribe(sumListener);
+        product.subscribe(productListener);
+
+        batch(() => {
+            a.emit(3);
+            b.emit(4);
+            a.emit(5);
+        });
+
+        expect(sumListener).toHaveBeenCalledTimes(1);
+        expect(productListener).toHaveBeenCalledTimes(1);
+        expect(sum.getSnapshot()).toBe(9);
+        expect(product.getSnapshot()).toBe(20);
+    });
+
+    it("should return the latest values inside the batch", () => {
+        const source = createFlow(1);
+        const flow = new ComputedFlow((ctx) => ctx.watch(source) * 2);
+        flow.subscribe(vi.fn());
+
+        batch(() => {
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(4);
+        });
+    });
+
+    it("should flush notifications if the function throws", () => {
+        const source = createFlow(1);
+        const flow = new ComputedFlow((ctx) => ctx.watch(source) * 2);
+        const listener = vi.fn();
+        flow.subscribe(listener);
+
+        expect(() =>
+            batch(() => {
+                source.emit(2);
+                throw new Error("Batch error");
+            }),
+        ).toThrow("Batch error");
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+});
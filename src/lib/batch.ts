@@ -0,0 +1,26 @@
+import { scheduler } from "./scheduler";
+
+/**
+ * Runs a function in a batch, deferring notifications of computed flows until the batch is finished.
+ *
+ * Computed flows affected by source changes made inside the batch notify their subscribers once,
+ * after the outermost batch is finished. Batches can be nested.
+ *
+ * @typeParam T - The return type of the function
+ * @param fn - The function to run
+ * @returns The result of the function
+ *
+ * @example
+ * ```typescript
+ * const fullName = computedFlow((ctx) => `${ctx.watch(firstName)} ${ctx.watch(lastName)}`);
+ * fullName.subscribe(() => console.log(fullName.getSnapshot()));
+ *
+ * batch(() => {
+ *   firstName.emit("Jane");
+ *   lastName.emit("Smith");
+ * }); // Logs "Jane Smith" once
+ * ```
+ */
+export function batch<T>(fn: () => T): T {
+    return scheduler.run(fn);
+}
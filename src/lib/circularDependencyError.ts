@@ -0,0 +1,33 @@
+/**
+ * Error thrown when a computed flow depends on itself, directly or through other flows.
+ *
+ * @example
+ * ```typescript
+ * const a = computedFlow((ctx) => ctx.watch(b) + 1, { name: "a" });
+ * const b = computedFlow((ctx) => ctx.watch(a) + 1, { name: "b" });
+ *
+ * a.getSnapshot(); // throws CircularDependencyError: Circular dependency detected: a -> b -> a
+ * ```
+ */
+export class CircularDependencyError extends Error {
+    /**
+     * The flows forming the cycle, starting and ending with the same flow.
+     */
+    public readonly path: readonly object[];
+
+    /**
+     * Creates a new CircularDependencyError instance.
+     *
+     * @param path - The flows forming the cycle, starting and ending with the same flow
+     */
+    public constructor(path: readonly object[]) {
+        const labels = path.map((flow) => {
+            // Flows created outside of this library may have no name
+            const name = "name" in flow ? flow.name : undefined;
+            return typeof name === "string" ? name : "<anonymous>";
+        });
+        super(`Circular dependency detected: ${labels.join(" -> ")}`);
+        this.name = "CircularDependencyError";
+        this.path = path;
+    }
+}
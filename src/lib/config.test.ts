@@ -0,0 +1,244 @@
+/* eslint-disable @typescript-eslint/require-await */
+import { createFlow } from "@tsip/flow";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { configure } from "./config";
+import { ComputedFlow } from "../sync/instance";
+import { AsyncComputedPromiseFlow } from "../async/promises/instance";
+
+describe("configure", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "error").mockImplementation(() => {
+            // noop
+        });
+    });
+
+    afterEach(() => {
+        configure({ onListenerError: undefined, onComputationError: undefined });
+        vi.mocked(console.error).mockRestore();
+    });
+
+    describe("onListenerError", () => {
+        it("should log listener errors by default", () => {
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source));
+            flow.subscribe(() => {
+                throw new Error("Listener error");
+            });
+
+            source.emit(2);
+            expect(console.error).toHaveBeenCalledTimes(1);
+        });
+
+        it("should route listener errors to the global handler", () => {
+            const onListenerError = vi.fn();
+            configure({ onListenerError });
+
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source));
+            const error = new Error("Listener error");
+            const listener = vi.fn();
+            flow.subscribe(() => {
+                throw error;
+            });
+            flow.subscribe(listener);
+
+            source.emit(2);
+            expect(onListenerError).toHaveBeenCalledExactlyOnceWith(error, flow);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(console.error).not.toHaveBeenCalled();
+        });
+
+        it("should prefer the handler of the flow", () => {
+            const globalHandler = vi.fn();
+            const flowHandler = vi.fn();
+            configure({ onListenerError: globalHandler });
+
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source), { onListenerError: flowHandler });
+            flow.subscribe(() => {
+                throw new Error("Listener error");
+            });
+
+            source.emit(2);
+            expect(flowHandler).toHaveBeenCalledTimes(1);
+            expect(globalHandler).not.toHaveBeenCalled();
+        });
+
+        it("should propagate errors thrown by the handler to the emit call", () => {
+            configure({
+                onListenerError: (error) => {
+                    throw error;
+                },
+            });
+
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source));
+            flow.subscribe(() => {
+                throw new Error("Listener error");
+            });
+
+            expect(() => {
+                source.emit(2);
+            }).toThrow();
+        });
+
+        it("should notify other flows when the handler rethrows", () => {
+            configure({
+                onListenerError: (error) => {
+                    throw error;
+                },
+            });
+
+            const x = createFlow(1);
+            const y1 = new ComputedFlow(({ watch }) => watch(x) + 1);
+            const y2 = new ComputedFlow(({ watch }) => watch(x) * 2);
+            const z = new ComputedFlow(({ watch }) => watch(y2) + 1);
+            const y1Listener = vi.fn();
+            const y2Listener = vi.fn(() => y2.getSnapshot());
+            const zListener = vi.fn(() => z.getSnapshot());
+            y1.subscribe(() => {
+                throw new Error("Listener error");
+            });
+            y1.subscribe(y1Listener);
+            y2.subscribe(y2Listener);
+            z.subscribe(zListener);
+
+            expect(() => {
+                x.emit(2);
+            }).toThrow();
+            expect(y1Listener).toHaveBeenCalledTimes(1);
+            expect(y2Listener).toHaveBeenCalledTimes(1);
+            expect(zListener).toHaveBeenCalledTimes(1);
+            expect(z.getSnapshot()).toBe(5);
+
+            y1.getSnapshot();
+            expect(() => {
+                x.emit(3);
+            }).toThrow();
+            expect(y2Listener).toHaveBeenCalledTimes(2);
+            expect(zListener).toHaveBeenCalledTimes(2);
+            expect(z.getSnapshot()).toBe(7);
+        });
+
+        it("should restore the default behavior when the handler is reset", () => {
+            const onListenerError = vi.fn();
+            configure({ onListenerError });
+            configure({ onListenerError: undefined });
+
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source));
+            flow.subscribe(() => {
+                throw new Error("Listener error");
+            });
+
+            source.emit(2);
+            expect(onListenerError).not.toHaveBeenCalled();
+            expect(console.error).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("onComputationError", () => {
+        it("should route getter errors to the global handler", () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+
+            const error = new Error("Compute error");
+            const flow = new ComputedFlow(() => {
+                throw error;
+            });
+
+            expect(() => flow.getSnapshot()).toThrow(error);
+            expect(onComputationError).toHaveBeenCalledExactlyOnceWith(error, flow);
+        });
+
+        it("should report labelled errors of named flows", () => {
+            const onComputationError = vi.fn();
+            const flow = new ComputedFlow(
+                () => {
+                    throw new Error("Compute error");
+                },
+                { name: "user", onComputationError },
+            );
+
+            expect(() => flow.getSnapshot()).toThrow('Failed to compute flow "user"');
+            const error = onComputationError.mock.calls[0]?.[0] as Error;
+            expect(error.message).toBe('Failed to compute flow "user"');
+        });
+
+        it("should not report skipped computations", () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+
+            const flow = new ComputedFlow(({ skip }) => skip(), { initialValue: 0 });
+            expect(flow.getSnapshot()).toBe(0);
+            expect(onComputationError).not.toHaveBeenCalled();
+        });
+
+        it("should report errors of async getters", async () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+
+            const error = new Error("Async error");
+            const flow = new AsyncComputedPromiseFlow(async () => {
+                throw error;
+            });
+
+            await expect(flow.asPromise()).rejects.toThrow(error);
+            expect(onComputationError).toHaveBeenCalledExactlyOnceWith(error, flow);
+        });
+
+        it("should report errors passed down a chain of flows once", () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+
+            const error = new Error("Compute error");
+            const a = new ComputedFlow<number>(() => {
+                throw error;
+            });
+            const b = new ComputedFlow(({ watch }) => watch(a) + 1);
+            const c = new ComputedFlow(({ watch }) => watch(b, (value) => value * 2));
+            const d = new ComputedFlow(() => c.getSnapshot() + 1);
+
+            expect(() => d.getSnapshot()).toThrow(error);
+            expect(onComputationError).toHaveBeenCalledExactlyOnceWith(error, a);
+        });
+
+        it("should report errors raised by getters from errors of sources", () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+
+            const a = new ComputedFlow<number>(
+                () => {
+                    throw new Error("Compute error");
+                },
+                { name: "a" },
+            );
+            const b = new ComputedFlow(({ watch }) => {
+                try {
+                    return watch(a);
+                } catch (err) {
+                    throw new Error("Wrapped error", { cause: err });
+                }
+            });
+
+            expect(() => b.getSnapshot()).toThrow("Wrapped error");
+            expect(onComputationError).toHaveBeenCalledTimes(2);
+            expect(onComputationError).toHaveBeenLastCalledWith(expect.any(Error), b);
+        });
+
+        it("should report errors passed down a chain of async flows once", async () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+
+            const error = new Error("Async error");
+            const a = new AsyncComputedPromiseFlow<number>(async () => {
+                throw error;
+            });
+            const b = new AsyncComputedPromiseFlow(async ({ watchAsync }) => (await watchAsync(a)) + 1);
+            const c = new AsyncComputedPromiseFlow(async ({ watchAsync }) => (await watchAsync(b)) + 1);
+
+            await expect(c.asPromise()).rejects.toThrow(error);
+            expect(onComputationError).toHaveBeenCalledExactlyOnceWith(error, a);
+        });
+    });
+});
@@ -0,0 +1,71 @@
+import type { Flow } from "@tsip/types";
+
+/**
+ * Handlers of errors thrown by listeners and getters of computed flows.
+ */
+export interface FlowErrorHandlers {
+    /**
+     * Called when a listener of a computed flow throws.
+     *
+     * By default, the error is logged with `console.error`. Errors thrown by the handler
+     * are propagated to the code that triggered the notification, e.g. the `emit` call of a source.
+     *
+     * @param error - The error thrown by the listener
+     * @param flow - The flow whose listener has thrown
+     */
+    onListenerError?: (error: unknown, flow: Flow<unknown>) => void;
+
+    /**
+     * Called when a getter of a computed flow throws, except for aborted computations.
+     * Errors of sources rethrown by getters are reported once, by the flow whose getter has raised them.
+     *
+     * The error is still stored in the flow and thrown to its readers. For named flows,
+     * it's the error labelled with the name of the flow.
+     *
+     * @param error - The error thrown by the getter
+     * @param flow - The flow whose getter has thrown
+     */
+    onComputationError?: (error: unknown, flow: Flow<unknown>) => void;
+}
+
+/**
+ * Error handlers set with {@link configure}.
+ */
+let globalHandlers: FlowErrorHandlers = {};
+
+/**
+ * Sets global error handlers of computed flows.
+ *
+ * Handlers are merged with the previously configured ones, and passing `undefined` restores the default behavior.
+ * Handlers set in options of a flow take precedence over the global ones.
+ *
+ * @param handlers - The error handlers to set
+ *
+ * @example
+ * ```typescript
+ * configure({
+ *   onListenerError: (error) => Sentry.captureException(error),
+ *   onComputationError: (error, flow) => Sentry.captureException(error, { extra: inspect(flow) }),
+ * });
+ *
+ * // Rethrow listener errors in tests
+ * configure({
+ *   onListenerError: (error) => {
+ *     throw error;
+ *   },
+ * });
+ * ```
+ */
+export function configure(handlers: FlowErrorHandlers): void {
+    globalHandlers = { ...globalHandlers, ...handlers };
+}
+
+/**
+ * Returns the error handlers set with {@link configure}.
+ *
+ * @returns The global error handlers
+ * @internal
+ */
+export function getGlobalErrorHandlers(): FlowErrorHandlers {
+    return globalHandlers;
+}
@@ -0,0 +1,34 @@
+/**
+ * Returns a promise that resolves after the specified time.
+ *
+ * @param ms - The time to wait in milliseconds
+ * @param signal - Abort signal that cancels the timer and rejects the promise with the abort reason
+ * @returns A promise that resolves after the timeout
+ *
+ * @example
+ * ```ts
+ * await delay(100, ctx.signal);
+ * ```
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors -- Intentionally preserve the abort reason
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors -- Intentionally preserve the abort reason
+            reject(signal?.reason);
+        };
+
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,52 @@
+/**
+ * Returns options of a flow created by a parameterized computed flow, with the name suffixed with the parameters.
+ *
+ * @typeParam O - The type of the options
+ * @param options - The options of the parameterized computed flow
+ * @param params - The parameters of the created flow
+ * @returns The options with the suffixed name, or the original options if the flow has no name
+ *
+ * @example
+ * ```ts
+ * withFamilyMemberName({ name: "member" }, ["acme", 1]); // { name: 'member("acme", 1)' }
+ * ```
+ */
+export function withFamilyMemberName<O extends { name?: string }>(
+    options: O | undefined,
+    params: readonly unknown[],
+): O | undefined {
+    if (options?.name === undefined) {
+        return options;
+    }
+
+    return { ...options, name: `${options.name}(${params.map(formatParam).join(", ")})` };
+}
+
+/**
+ * Formats a parameter for a flow name.
+ *
+ * @param param - The parameter to format
+ * @returns The readable representation of the parameter
+ */
+function formatParam(param: unknown): string {
+    switch (typeof param) {
+        case "string":
+            return JSON.stringify(param);
+        case "bigint":
+            return `${param.toString()}n`;
+        case "function":
+            return param.name || "function";
+        case "object":
+            if (param === null) {
+                return "null";
+            }
+            try {
+                return JSON.stringify(param);
+            } catch {
+                // Circular references
+                return Object.prototype.toString.call(param);
+            }
+        default:
+            return String(param);
+    }
+}
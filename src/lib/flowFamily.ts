@@ -0,0 +1,46 @@
+import { getMemoizedValues } from "./memoize";
+
+/**
+ * A function that returns the flow of a parameterized computed flow for the given parameters.
+ *
+ * @typeParam Params - The types of parameters of the flow
+ * @typeParam F - The type of flows of the family
+ */
+export interface FlowFamily<Params extends unknown[], F> {
+    /**
+     * Returns the flow for the given parameters, creating it if it's not cached.
+     *
+     * @param params - The parameters of the flow
+     * @returns The flow for the parameters
+     */
+    (...params: Params): F;
+
+    /**
+     * Marks all cached flows of the family as stale, so that they are recomputed on the next read.
+     * Subscribers of the flows are notified about the change.
+     */
+    invalidateAll(): void;
+}
+
+/**
+ * Creates a flow family from a memoized function that creates flows.
+ *
+ * @typeParam Params - The types of parameters of the flow
+ * @typeParam F - The type of flows of the family
+ * @param getFlow - Returns the flow for the given parameters
+ * @param memoized - The memoized function holding the flows of the family
+ * @returns The flow family
+ * @internal
+ */
+export function createFlowFamily<Params extends unknown[], F>(
+    getFlow: (...params: Params) => F,
+    memoized: (param: never) => { invalidate(): void },
+): FlowFamily<Params, F> {
+    return Object.assign(getFlow, {
+        invalidateAll: () => {
+            for (const flow of getMemoizedValues(memoized)) {
+                flow.invalidate();
+            }
+        },
+    });
+}
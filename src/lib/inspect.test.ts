@@ -0,0 +1,84 @@
+import { createAsyncFlow, createFlow } from "@tsip/flow";
+import { describe, it, expect, vi } from "vitest";
+import { inspect } from "./inspect";
+import { computedFlow } from "../sync/factory";
+import { asyncComputedFlow } from "../async/factory";
+
+describe("inspect", () => {
+    it("should return null for flows that are not computed flows", () => {
+        expect(inspect(createFlow(1))).toBeNull();
+    });
+
+    it("should report a flow that was not computed yet as dirty", () => {
+        const getter = vi.fn(() => 1);
+        const flow = computedFlow(getter);
+
+        expect(inspect(flow)).toEqual({
+            name: null,
+            sources: [],
+            subscribers: 0,
+            dirty: true,
+            family: null,
+            async: null,
+        });
+        expect(getter).not.toHaveBeenCalled();
+    });
+
+    it("should report sources of the last computation", () => {
+        const condition = createFlow(true);
+        const a = createFlow("a");
+        const b = createFlow("b");
+        const flow = computedFlow(({ watch }) => (watch(condition) ? watch(a) : watch(b)));
+
+        flow.getSnapshot();
+        expect(inspect(flow)?.sources).toEqual([condition, a]);
+
+        condition.emit(false);
+        flow.getSnapshot();
+        expect(inspect(flow)?.sources).toEqual([condition, b]);
+    });
+
+    it("should report subscribers and dirty state", () => {
+        const source = createFlow(1);
+        const flow = computedFlow(({ watch }) => watch(source) * 2);
+
+        const subscription1 = flow.subscribe(vi.fn());
+        const subscription2 = flow.subscribe(vi.fn());
+        expect(inspect(flow)).toMatchObject({ subscribers: 2, dirty: false });
+
+        source.emit(2);
+        expect(inspect(flow)).toMatchObject({ subscribers: 2, dirty: true });
+
+        flow.getSnapshot();
+        expect(inspect(flow)).toMatchObject({ subscribers: 2, dirty: false });
+
+        subscription1.unsubscribe();
+        subscription2.unsubscribe();
+        expect(inspect(flow)).toMatchObject({ subscribers: 0 });
+    });
+
+    it("should report the param of family members", () => {
+        const single = computedFlow((_ctx, id: number) => id);
+        const multiple = computedFlow((_ctx, a: number, b: string) => `${a.toString()}${b}`);
+
+        expect(inspect(single(1))?.family).toEqual({ param: 1 });
+        expect(inspect(multiple(1, "a"))?.family).toEqual({ param: [1, "a"] });
+    });
+
+    it("should report the state of async computations", async () => {
+        const source = createAsyncFlow<number>({ status: "pending" });
+        const flow = asyncComputedFlow(async ({ watchAsync }) => {
+            return (await watchAsync(source)) * 2;
+        });
+
+        expect(inspect(flow)?.async).toEqual({ epoch: 0, status: "pending", pendingComputations: 0 });
+
+        const promise = flow.asPromise();
+        expect(inspect(flow)?.async).toEqual({ epoch: 1, status: "pending", pendingComputations: 1 });
+
+        source.emit({ status: "success", data: 2 });
+        await promise;
+        expect(inspect(flow)?.async).toMatchObject({ status: "success", pendingComputations: 0 });
+        expect(inspect(flow)?.sources).toEqual([source]);
+    });
+});
@@ -0,0 +1,106 @@
+import type { AsyncFlowState, Flow } from "@tsip/types";
+import { ComputedFlowBase } from "../base/instance";
+
+/**
+ * The state of computations of an async computed flow.
+ */
+export interface AsyncFlowInspection {
+    /**
+     * The generation number of the computation that produced the current value.
+     * Computations are numbered from `1`, `0` means the flow was not computed yet.
+     */
+    epoch: number;
+
+    /**
+     * The status of the current value.
+     */
+    status: AsyncFlowState<unknown>["status"];
+
+    /**
+     * The number of computations that are still in progress.
+     */
+    pendingComputations: number;
+}
+
+/**
+ * A snapshot of the internal state of a computed flow.
+ */
+export interface FlowInspection {
+    /**
+     * The debug label of the flow, `null` if the flow has no name.
+     */
+    name: string | null;
+
+    /**
+     * Flows read by the last computation of the flow.
+     */
+    sources: Flow<unknown>[];
+
+    /**
+     * The number of active subscribers of the flow.
+     */
+    subscribers: number;
+
+    /**
+     * Whether the flow is going to recompute its value on the next read.
+     *
+     * Flows without subscribers don't track their sources, so their sources are checked for changes
+     * only on the next read, and the flow is reported as not dirty until then.
+     */
+    dirty: boolean;
+
+    /**
+     * The parameter of the flow if it was created by a parameterized computed flow,
+     * or the list of parameters for getters with multiple parameters.
+     */
+    family: { param: unknown } | null;
+
+    /**
+     * The state of computations for async computed flows, `null` for sync flows.
+     */
+    async: AsyncFlowInspection | null;
+}
+
+/**
+ * Parameters of flows created by parameterized computed flows.
+ */
+const params = new WeakMap<object, unknown>();
+
+/**
+ * Stores the parameter a flow was created for, to report it by {@link inspect}.
+ *
+ * @param flow - The flow created by a parameterized computed flow
+ * @param param - The parameter of the flow
+ * @internal
+ */
+export function setFlowParam(flow: object, param: unknown): void {
+    params.set(flow, param);
+}
+
+/**
+ * Returns a snapshot of the internal state of a computed flow, intended for debugging and developer tools.
+ *
+ * Inspecting a flow doesn't trigger its computation and doesn't change its state.
+ *
+ * @param flow - The flow to inspect
+ * @returns The state of the flow, or `null` if the flow is not a computed flow
+ *
+ * @example
+ * ```typescript
+ * const fullName = computedFlow((ctx) => `${ctx.watch(firstName)} ${ctx.watch(lastName)}`);
+ * fullName.getSnapshot();
+ *
+ * inspect(fullName);
+ * // { name: null, sources: [firstName, lastName], subscribers: 0, dirty: false, family: null, async: null }
+ * ```
+ */
+export function inspect(flow: Flow<unknown>): FlowInspection | null {
+    if (!(flow instanceof ComputedFlowBase)) {
+        return null;
+    }
+
+    return {
+        ...flow.inspect(),
+        family: params.has(flow) ? { param: params.get(flow) } : null,
+    };
+}
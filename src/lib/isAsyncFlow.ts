@@ -0,0 +1,10 @@
+import type { AsyncFlow, Flow } from "@tsip/types";
+
+/**
+ * Checks if a flow is an async flow
+ * @param flow - The flow to check
+ * @returns true if the flow implements the AsyncFlow interface
+ */
+export function isAsyncFlow<T>(flow: Flow<T> | AsyncFlow<T>): flow is AsyncFlow<T> {
+    return "asPromise" in flow && typeof flow.asPromise === "function";
+}
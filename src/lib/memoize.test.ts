@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach, expectTypeOf } from "vitest";
-import { memoize } from "./memoize";
+import { memoize, getMemoizedValues } from "./memoize";
 
 describe("memoize", () => {
     afterEach(() => {
@@ -174,6 +174,51 @@ describe("memoize", () => {
         });
     });
 
+    describe("custom key function", () => {
+        it("should use the key for parameter lookup", () => {
+            const fn = vi.fn((obj: { id: number; name: string }) => ({ id: obj.id }));
+            const memoized = memoize(fn, {
+                key: (param) => param.id,
+            });
+
+            const result1 = memoized({ id: 1, name: "Alice" });
+            const result2 = memoized({ id: 1, name: "Bob" });
+            const result3 = memoized({ id: 2, name: "Alice" });
+
+            expect(fn).toHaveBeenCalledTimes(2);
+            expect(result1).toBe(result2);
+            expect(result1).not.toBe(result3);
+        });
+
+        it("should ignore the equals function when the key is provided", () => {
+            const fn = vi.fn((x: number) => ({ value: x }));
+            const equals = vi.fn(() => true);
+            const memoized = memoize(fn, {
+                key: (param) => param,
+                equals,
+            });
+
+            const result1 = memoized(1);
+            const result2 = memoized(2);
+
+            expect(result1).not.toBe(result2);
+            expect(equals).not.toHaveBeenCalled();
+        });
+
+        it("should not compare the parameter with every cached key", () => {
+            const key = vi.fn((x: number) => x);
+            const memoized = memoize((x: number) => ({ value: x }), { key });
+
+            for (let i = 0; i < 100; i++) {
+                memoized(i);
+            }
+            key.mockClear();
+
+            memoized(50);
+            expect(key).toHaveBeenCalledTimes(1);
+        });
+    });
+
     describe("edge cases", () => {
         it("should handle null and undefined parameters", () => {
             const fn = vi.fn((x: unknown) => ({ input: x }));
@@ -383,6 +428,156 @@ describe("memoize", () => {
             expect(newResult.result).toBe(2);
         });
     });
+
+    describe("cache options", () => {
+        beforeEach(async () => {
+            await triggerGC();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should hold values strongly when cache options are provided", async () => {
+            const memoized = memoize((x: number) => ({ value: x }), { cache: {} });
+
+            let obj: { value: number } | null = memoized(1);
+            const weakRef = new WeakRef(obj);
+            obj = null;
+
+            await triggerGC();
+
+            expect(isCollected(weakRef)).toBe(false);
+            expect(memoized(1)).toBe(weakRef.deref());
+        });
+
+        it("should release the least recently used values when maxSize is exceeded", async () => {
+            const memoized = memoize((x: number) => ({ value: x }), { cache: { maxSize: 2 } });
+
+            const weakRef1 = new WeakRef(memoized(1));
+            const weakRef2 = new WeakRef(memoized(2));
+            memoized(1); // touch the first value, so the second one becomes the least recently used
+            const weakRef3 = new WeakRef(memoized(3));
+
+            await triggerGC();
+
+            expect(isCollected(weakRef1)).toBe(false);
+            expect(isCollected(weakRef2)).toBe(true);
+            expect(isCollected(weakRef3)).toBe(false);
+        });
+
+        it("should return released values while they are referenced elsewhere", () => {
+            const fn = vi.fn((x: number) => ({ value: x }));
+            const memoized = memoize(fn, { cache: { maxSize: 1 } });
+
+            const obj1 = memoized(1);
+            memoized(2); // releases the first value from the cache
+
+            expect(memoized(1)).toBe(obj1);
+            expect(fn).toHaveBeenCalledTimes(2);
+        });
+
+        it("should hold values strongly until ttl expires", async () => {
+            vi.useFakeTimers();
+            const memoized = memoize((x: number) => ({ value: x }), { cache: { ttl: 1000 } });
+
+            const weakRef = new WeakRef(memoized(1));
+            vi.advanceTimersByTime(500);
+            memoized(1); // extends the ttl
+            vi.advanceTimersByTime(700);
+
+            vi.useRealTimers();
+            await triggerGC();
+            expect(isCollected(weakRef)).toBe(false);
+        });
+
+        it("should release values after ttl expires", async () => {
+            vi.useFakeTimers();
+            const memoized = memoize((x: number) => ({ value: x }), { cache: { ttl: 1000 } });
+
+            const weakRef = new WeakRef(memoized(1));
+            vi.advanceTimersByTime(1000);
+            expect(vi.getTimerCount()).toBe(0);
+
+            vi.useRealTimers();
+            await triggerGC();
+            expect(isCollected(weakRef)).toBe(true);
+        });
+
+        it("should hold subscribed values regardless of limits with retainSubscribed", async () => {
+            let subscribedValue: number | null = 1;
+            const memoized = memoize((x: number) => ({ value: x }), {
+                cache: { maxSize: 0, retainSubscribed: true },
+                isSubscribed: (obj) => obj.value === subscribedValue,
+            });
+
+            const weakRef1 = new WeakRef(memoized(1));
+            const weakRef2 = new WeakRef(memoized(2));
+
+            await triggerGC();
+            expect(isCollected(weakRef1)).toBe(false);
+            expect(isCollected(weakRef2)).toBe(true);
+
+            // after unsubscribing, the value is released on the next call
+            subscribedValue = null;
+            memoized(3);
+
+            await triggerGC();
+            expect(isCollected(weakRef1)).toBe(true);
+        });
+
+        it("should hold only subscribed values with retainSubscribed alone", async () => {
+            let subscribedValue: number | null = 1;
+            const memoized = memoize((x: number) => ({ value: x }), {
+                cache: { retainSubscribed: true },
+                isSubscribed: (obj) => obj.value === subscribedValue,
+            });
+
+            const weakRef1 = new WeakRef(memoized(1));
+            const weakRef2 = new WeakRef(memoized(2));
+
+            await triggerGC();
+            expect(isCollected(weakRef1)).toBe(false);
+            expect(isCollected(weakRef2)).toBe(true);
+
+            subscribedValue = null;
+            memoized(3);
+
+            await triggerGC();
+            expect(isCollected(weakRef1)).toBe(true);
+        });
+
+        it("should not hold subscribed values without retainSubscribed", async () => {
+            const memoized = memoize((x: number) => ({ value: x }), {
+                cache: { maxSize: 0 },
+                isSubscribed: () => true,
+            });
+
+            const weakRef = new WeakRef(memoized(1));
+
+            await triggerGC();
+            expect(isCollected(weakRef)).toBe(true);
+        });
+    });
+
+    describe("getMemoizedValues", () => {
+        it("should return the cached values", () => {
+            const memoized = memoize((x: number) => ({ value: x }));
+            const result1 = memoized(1);
+            const result2 = memoized(2);
+            memoized(1);
+
+            expect(getMemoizedValues(memoized)).toEqual([result1, result2]);
+        });
+
+        it("should not return garbage collected values", async () => {
+            const memoized = memoize((x: number) => ({ value: x }));
+            memoized(1);
+
+            await triggerGC();
+            expect(getMemoizedValues(memoized)).toEqual([]);
+        });
+    });
 });
 
 // Helper to trigger garbage collection if available
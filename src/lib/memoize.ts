@@ -1,9 +1,50 @@
+/**
+ * Options that bound how long memoized instances are retained.
+ *
+ * By default, instances are held with weak references only and are released as soon as they are
+ * garbage collected. When cache options are provided, instances are also held strongly, so they
+ * survive garbage collection, until they are released by the `maxSize` or `ttl` limits.
+ * A released instance is still returned for equal parameters while it's referenced elsewhere.
+ */
+export interface CacheOptions {
+    /**
+     * Maximum number of instances held strongly.
+     * When exceeded, the least recently used instances are released.
+     *
+     * @default Infinity, or `0` when only `retainSubscribed` is set
+     */
+    maxSize?: number;
+
+    /**
+     * Time in milliseconds an instance is held strongly after it was last accessed.
+     *
+     * @default Infinity
+     */
+    ttl?: number;
+
+    /**
+     * Whether instances with active subscribers are held strongly regardless of the `maxSize` and `ttl` limits.
+     *
+     * Without the `maxSize` and `ttl` limits, instances are held strongly only while they are subscribed.
+     *
+     * @default false
+     *
+     * @example
+     * ```ts
+     * // Hold instances only while they are subscribed
+     * cache: { retainSubscribed: true }
+     * ```
+     */
+    retainSubscribed?: boolean;
+}
+
 /**
  * Configuration options for memoization behavior.
  *
- * @typeParam T - The parameter type for comparison
+ * @typeParam P - The parameter type for comparison
+ * @typeParam T - The type of memoized values
  */
-interface MemoizationOptions<T> {
+interface MemoizationOptions<P, T> {
     /**
      * Custom equality function for comparing function parameters.
      * When provided, this function determines whether two parameter values should be considered equal,
@@ -20,12 +61,62 @@ interface MemoizationOptions<T> {
      * };
      * ```
      */
-    equals?: (a: T, b: T) => boolean;
+    equals?: (a: P, b: P) => boolean;
+
+    /**
+     * Function that maps a parameter to a cache key.
+     * When provided, parameters with the same key are considered equal and are looked up in constant time,
+     * and the `equals` option is ignored.
+     *
+     * @param param - The parameter value
+     * @returns The cache key for the parameter
+     *
+     * @example
+     * ```ts
+     * const options = {
+     *   key: (param) => param.id
+     * };
+     * ```
+     */
+    key?: (param: P) => unknown;
+
+    /**
+     * Limits for holding memoized values strongly.
+     * When omitted, values are held with weak references only.
+     */
+    cache?: CacheOptions;
+
+    /**
+     * Checks whether a memoized value has active subscribers.
+     * Used together with {@link CacheOptions.retainSubscribed}.
+     *
+     * @param value - The memoized value
+     * @returns `true` if the value has active subscribers, `false` otherwise
+     */
+    isSubscribed?: (value: T) => boolean;
 }
 
+/**
+ * A value held strongly by the memoization cache.
+ * @internal
+ */
+interface RetainedEntry<T> {
+    /** The memoized value */
+    value: T;
+
+    /** The time when the value should be released */
+    expiresAt: number;
+}
+
+/**
+ * Functions that list the cached values of memoized functions, used by {@link getMemoizedValues}.
+ */
+const valueGetters = new WeakMap<object, () => object[]>();
+
 /**
  * Creates a memoized version of a function that caches object results using WeakRef.
  * The cache automatically cleans up when objects are garbage collected.
+ * With the `cache` option, results are also held strongly within the configured limits.
  *
  * @typeParam T - The return type of the function (must be an object)
  * @typeParam P - The parameter type of the function
@@ -48,24 +139,94 @@ interface MemoizationOptions<T> {
  * );
  * ```
  */
-export function memoize<T extends object, P = never>(fn: () => T, options?: MemoizationOptions<P>): () => T;
+export function memoize<T extends object, P = never>(fn: () => T, options?: MemoizationOptions<P, T>): () => T;
 export function memoize<T extends object, P = never>(
     fn: (param: P) => T,
-    options?: MemoizationOptions<P>,
+    options?: MemoizationOptions<P, T>,
 ): (param: P) => T;
 export function memoize<T extends object, P = never>(
     fn: (param?: P) => T,
-    options?: MemoizationOptions<P>,
+    options?: MemoizationOptions<P, T>,
 ): (param?: P) => T {
-    type Key = P | symbol | undefined;
+    type Key = unknown;
 
     const cache = new Map<Key, WeakRef<T>>();
     const registry = new FinalizationRegistry((key: Key) => {
-        cache.delete(key);
+        // The key may already point to a newer value created after the collected one was released
+        if (!cache.get(key)?.deref()) {
+            cache.delete(key);
+        }
     });
     const notFound = Symbol();
 
-    const findKey = (param: Key): Key => {
+    // Strongly held values in the order of access, from the least recently used
+    const retained = new Map<Key, RetainedEntry<T>>();
+    const ttl = options?.cache?.ttl ?? Infinity;
+    // Without limits, subscribed values are the only ones held strongly
+    const maxSize =
+        options?.cache?.maxSize ?? (options?.cache?.retainSubscribed && options.cache.ttl === undefined ? 0 : Infinity);
+    let releaseTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const isPinned = (value: T): boolean => {
+        return options?.cache?.retainSubscribed === true && options.isSubscribed?.(value) === true;
+    };
+
+    const release = () => {
+        const now = Date.now();
+
+        // Each entry is checked at most once, pinned entries are moved to the end
+        let count = retained.size;
+        for (const [key, entry] of retained) {
+            if (count-- === 0) {
+                break;
+            }
+
+            const isOverflow = retained.size > maxSize;
+            const isExpired = entry.expiresAt <= now;
+            if (!isOverflow && !isExpired) {
+                // The following entries were accessed later, so they are within the limits too
+                break;
+            }
+
+            retained.delete(key);
+            if (isPinned(entry.value)) {
+                retained.set(key, { value: entry.value, expiresAt: now + ttl });
+            }
+        }
+
+        scheduleRelease();
+    };
+
+    const scheduleRelease = () => {
+        const first = retained.values().next();
+        if (releaseTimer !== null || first.done || ttl === Infinity) {
+            return;
+        }
+
+        releaseTimer = setTimeout(
+            () => {
+                releaseTimer = null;
+                release();
+            },
+            Math.max(0, first.value.expiresAt - Date.now()),
+        );
+    };
+
+    const retain = (key: Key, value: T) => {
+        if (!options?.cache) {
+            return;
+        }
+
+        retained.delete(key);
+        retained.set(key, { value, expiresAt: Date.now() + ttl });
+        release();
+    };
+
+    const findKey = (param: P | undefined): Key => {
+        if (options?.key) {
+            return options.key(param as P);
+        }
+
         if (!options?.equals) {
             return param;
         }
@@ -79,7 +240,7 @@ export function memoize<T extends object, P = never>(
         return notFound;
     };
 
-    return (param?: Key) => {
+    const memoized = (param?: P) => {
         let value: T | undefined;
 
         const key = findKey(param);
@@ -91,11 +252,40 @@ export function memoize<T extends object, P = never>(
         }
 
         if (!value) {
+            // Parameters without an equal cached key are stored as is
+            const newKey = key === notFound ? param : key;
             value = fn(param as P);
-            cache.set(param, new WeakRef(value));
-            registry.register(value, param);
+            cache.set(newKey, new WeakRef(value));
+            registry.register(value, newKey);
+            retain(newKey, value);
+        } else {
+            retain(key, value);
         }
 
         return value;
     };
+
+    valueGetters.set(memoized, () => {
+        const values: T[] = [];
+        for (const ref of cache.values()) {
+            const value = ref.deref();
+            if (value) {
+                values.push(value);
+            }
+        }
+        return values;
+    });
+
+    return memoized;
+}
+
+/**
+ * Returns the cached values of a memoized function that haven't been garbage collected.
+ *
+ * @typeParam T - The type of memoized values
+ * @param memoized - The function returned by {@link memoize}
+ * @returns The cached values in the order of creation
+ */
+export function getMemoizedValues<T extends object>(memoized: (param: never) => T): T[] {
+    return (valueGetters.get(memoized)?.() ?? []) as T[];
 }
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { getRetryDelay } from "./retry";
+
+describe("getRetryDelay", () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should not retry without the retry option", () => {
+        expect(getRetryDelay(undefined, new Error(), 1)).toBeNull();
+        expect(getRetryDelay(0, new Error(), 1)).toBeNull();
+    });
+
+    it("should retry up to the count", () => {
+        const retry = { count: 2, jitter: false };
+        expect(getRetryDelay(retry, new Error(), 1)).not.toBeNull();
+        expect(getRetryDelay(retry, new Error(), 2)).not.toBeNull();
+        expect(getRetryDelay(retry, new Error(), 3)).toBeNull();
+    });
+
+    it("should use the number as the count", () => {
+        expect(getRetryDelay(1, new Error(), 1)).not.toBeNull();
+        expect(getRetryDelay(1, new Error(), 2)).toBeNull();
+    });
+
+    it("should grow delays exponentially up to the maximum", () => {
+        const retry = { count: 10, delay: 100, maxDelay: 500, jitter: false };
+        expect(getRetryDelay(retry, new Error(), 1)).toBe(100);
+        expect(getRetryDelay(retry, new Error(), 2)).toBe(200);
+        expect(getRetryDelay(retry, new Error(), 3)).toBe(400);
+        expect(getRetryDelay(retry, new Error(), 4)).toBe(500);
+    });
+
+    it("should randomize delays with jitter", () => {
+        vi.spyOn(Math, "random").mockReturnValue(0.25);
+        expect(getRetryDelay({ delay: 100 }, new Error(), 2)).toBe(50);
+    });
+
+    it("should ask shouldRetry with the error and the attempt", () => {
+        const error = new Error("Network error");
+        const shouldRetry = vi.fn((_: unknown, attempt: number) => attempt < 2);
+
+        expect(getRetryDelay({ shouldRetry }, error, 1)).not.toBeNull();
+        expect(getRetryDelay({ shouldRetry }, error, 2)).toBeNull();
+        expect(shouldRetry).toHaveBeenCalledWith(error, 1);
+        expect(shouldRetry).toHaveBeenCalledWith(error, 2);
+    });
+});
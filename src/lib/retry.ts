@@ -0,0 +1,70 @@
+/**
+ * Retry policy of async computed flows.
+ */
+export interface RetryOptions {
+    /**
+     * The maximum number of retries after the first failed attempt.
+     *
+     * @default 3
+     */
+    count?: number;
+
+    /**
+     * The delay before the first retry in milliseconds. Each next delay is doubled.
+     *
+     * @default 1000
+     */
+    delay?: number;
+
+    /**
+     * The maximum delay between retries in milliseconds.
+     *
+     * @default 30000
+     */
+    maxDelay?: number;
+
+    /**
+     * Whether to randomize delays between zero and the exponential delay,
+     * so that flows failed at the same time don't retry at the same time.
+     *
+     * @default true
+     */
+    jitter?: boolean;
+
+    /**
+     * Decides whether the failed computation should be retried.
+     *
+     * @param error - The error thrown by the getter
+     * @param attempt - The number of the upcoming retry, starting from 1
+     * @returns `true` to retry the computation, `false` to publish the error
+     * @default () => true
+     */
+    shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Returns the delay before the retry, or `null` if the computation shouldn't be retried.
+ *
+ * @param retry - The `retry` option of the flow
+ * @param error - The error thrown by the getter
+ * @param attempt - The number of the upcoming retry, starting from 1
+ * @returns The delay in milliseconds, or `null` to publish the error
+ */
+export function getRetryDelay(
+    retry: number | RetryOptions | undefined,
+    error: unknown,
+    attempt: number,
+): number | null {
+    const options = typeof retry === "number" ? { count: retry } : retry;
+    if (!options) {
+        return null;
+    }
+
+    const { count = 3, delay = 1000, maxDelay = 30_000, jitter = true, shouldRetry } = options;
+    if (attempt > count || (shouldRetry && !shouldRetry(error, attempt))) {
+        return null;
+    }
+
+    const exponentialDelay = Math.min(delay * 2 ** (attempt - 1), maxDelay);
+    return jitter ? Math.random() * exponentialDelay : exponentialDelay;
+}
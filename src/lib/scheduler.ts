@@ -0,0 +1,216 @@
+import type { Flow, FlowSubscription } from "@tsip/types";
+
+/**
+ * A handler registered on a shared source subscription.
+ * @internal
+ */
+interface SourceHandler {
+    /** The function to call when the source emits */
+    handler: () => void;
+}
+
+/**
+ * A single subscription to a source flow shared between all computations depending on it.
+ * @internal
+ */
+interface SharedSource {
+    /** The underlying subscription to the source flow */
+    subscription: FlowSubscription;
+
+    /** Handlers of dependent computations */
+    handlers: ReadonlySet<SourceHandler>;
+}
+
+/**
+ * Topological heights of computed flows.
+ * Flows that are not registered here (e.g. plain mutable flows) have a height of `0`.
+ */
+const heights = new WeakMap<object, number>();
+
+/**
+ * Shared subscriptions to source flows, keyed by the source flow.
+ */
+const sharedSources = new Map<Flow<unknown>, SharedSource>();
+
+/**
+ * Pending notifications grouped by the height of the notified flow.
+ */
+const levels: (Map<object, () => void> | undefined)[] = [];
+
+/**
+ * The lowest level that may contain pending notifications.
+ */
+let lowestLevel = 0;
+
+/**
+ * The number of currently running propagation waves.
+ * Notifications are delivered only when the outermost wave is finished.
+ */
+let depth = 0;
+
+/**
+ * Propagation scheduler for the computed flows graph.
+ *
+ * Changes are propagated in waves: an emit of a source flow marks all dependent computed flows as dirty first,
+ * and only then their listeners are called in topological order (sorted by height). This way every listener
+ * is called at most once per source change and observes a consistent state of the graph.
+ */
+export const scheduler = {
+    /**
+     * Returns the topological height of a flow.
+     *
+     * @param flow - The flow to get the height for
+     * @returns The height of the flow, or `0` for flows that are not computed flows
+     */
+    getHeight(flow: object): number {
+        return heights.get(flow) ?? 0;
+    },
+
+    /**
+     * Updates the topological height of a computed flow.
+     *
+     * @param flow - The computed flow
+     * @param height - The new height of the flow
+     */
+    setHeight(flow: object, height: number): void {
+        heights.set(flow, height);
+    },
+
+    /**
+     * Schedules a notification of the flow listeners.
+     *
+     * If called outside of a propagation wave, the notification is delivered immediately.
+     * Multiple notifications of the same flow scheduled within a single wave are delivered once.
+     *
+     * @param flow - The flow whose listeners should be notified
+     * @param callback - The function that calls the flow listeners
+     */
+    schedule(flow: object, callback: () => void): void {
+        const height = scheduler.getHeight(flow);
+        const level = (levels[height] ??= new Map());
+        if (!level.has(flow)) {
+            level.set(flow, callback);
+        }
+        lowestLevel = Math.min(lowestLevel, height);
+
+        if (depth === 0) {
+            flush();
+        }
+    },
+
+    /**
+     * Runs the function within a propagation wave.
+     * Notifications scheduled during the call are delivered after the outermost wave is finished.
+     *
+     * @typeParam T - The return type of the function
+     * @param fn - The function to run
+     * @returns The result of the function
+     */
+    run<T>(fn: () => T): T {
+        depth++;
+        try {
+            return fn();
+        } finally {
+            depth--;
+            if (depth === 0) {
+                flush();
+            }
+        }
+    },
+
+    /**
+     * Subscribes to a source flow on behalf of a computation.
+     *
+     * All computations depending on the same source share a single subscription to it, so a single emit
+     * of the source is handled as a single propagation wave regardless of the number of dependents.
+     *
+     * @param flow - The source flow to subscribe to
+     * @param handler - The function to call when the source emits
+     * @returns A subscription that removes the handler
+     */
+    subscribe(flow: Flow<unknown>, handler: () => void): FlowSubscription {
+        const entry: SourceHandler = { handler };
+
+        let source = sharedSources.get(flow);
+        if (!source) {
+            const shared: SharedSource = {
+                handlers: new Set(),
+                subscription: flow.subscribe(() => {
+                    scheduler.run(() => {
+                        for (const { handler } of shared.handlers) {
+                            handler();
+                        }
+                    });
+                }),
+            };
+            sharedSources.set(flow, shared);
+            source = shared;
+        }
+
+        const handlers = new Set(source.handlers);
+        handlers.add(entry);
+        source.handlers = handlers;
+
+        return {
+            unsubscribe: () => {
+                const source = sharedSources.get(flow);
+                if (!source?.handlers.has(entry)) {
+                    return;
+                }
+
+                const handlers = new Set(source.handlers);
+                handlers.delete(entry);
+                source.handlers = handlers;
+
+                // Stop listening to the source when the last dependent is removed
+                if (handlers.size === 0) {
+                    sharedSources.delete(flow);
+                    source.subscription.unsubscribe();
+                }
+            },
+        };
+    },
+};
+
+/**
+ * Delivers all pending notifications in topological order.
+ * Notifications scheduled during the flush (e.g. from listeners of upstream flows) are delivered within the same flush.
+ *
+ * An error thrown by a notification doesn't stop the delivery of the other ones.
+ * The first error is rethrown once all notifications are delivered.
+ */
+function flush(): void {
+    let hasError = false;
+    let firstError: unknown;
+
+    depth++;
+    try {
+        while (lowestLevel < levels.length) {
+            const level = levels[lowestLevel];
+            const next = level?.entries().next();
+            if (!level || !next || next.done) {
+                lowestLevel++;
+                continue;
+            }
+
+            const [flow, callback] = next.value;
+            level.delete(flow);
+            try {
+                callback();
+            } catch (error) {
+                if (!hasError) {
+                    hasError = true;
+                    firstError = error;
+                }
+            }
+        }
+    } finally {
+        levels.length = 0;
+        lowestLevel = 0;
+        depth--;
+    }
+
+    if (hasError) {
+        throw firstError;
+    }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { argumentsKey, structuralKey } from "./structuralKey";
+
+describe("structuralKey", () => {
+    it("should distinguish primitives of different types", () => {
+        const keys = [1, "1", 1n, true, "true", null, "null", undefined, "undefined", -0, 0, NaN].map(structuralKey);
+        expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it("should return equal keys for equal primitives", () => {
+        expect(structuralKey(1)).toBe(structuralKey(1));
+        expect(structuralKey("a")).toBe(structuralKey("a"));
+        expect(structuralKey(NaN)).toBe(structuralKey(NaN));
+    });
+
+    it("should compare plain objects by content regardless of property order", () => {
+        expect(structuralKey({ a: 1, b: "2" })).toBe(structuralKey({ b: "2", a: 1 }));
+        expect(structuralKey({ a: 1 })).not.toBe(structuralKey({ a: 2 }));
+        expect(structuralKey({ a: 1 })).not.toBe(structuralKey({ b: 1 }));
+        expect(structuralKey(Object.create(null))).toBe(structuralKey({}));
+    });
+
+    it("should ignore properties with undefined values", () => {
+        expect(structuralKey({ a: 1, b: undefined })).toBe(structuralKey({ a: 1 }));
+    });
+
+    it("should compare arrays by content and order", () => {
+        expect(structuralKey([1, 2, 3])).toBe(structuralKey([1, 2, 3]));
+        expect(structuralKey([1, 2, 3])).not.toBe(structuralKey([3, 2, 1]));
+        expect(structuralKey([1, [2]])).not.toBe(structuralKey([[1], 2]));
+        expect(structuralKey([1])).not.toBe(structuralKey({ 0: 1 }));
+    });
+
+    it("should compare nested structures", () => {
+        const a = { filter: { tags: ["x", "y"], range: { from: 1, to: 2 } }, page: 1 };
+        const b = { page: 1, filter: { range: { to: 2, from: 1 }, tags: ["x", "y"] } };
+        expect(structuralKey(a)).toBe(structuralKey(b));
+    });
+
+    it("should not confuse strings with structural characters", () => {
+        expect(structuralKey({ a: "1,b:2" })).not.toBe(structuralKey({ a: "1", b: 2 }));
+        expect(structuralKey(["a,b"])).not.toBe(structuralKey(["a", "b"]));
+    });
+
+    it("should compare dates by time", () => {
+        expect(structuralKey(new Date(1000))).toBe(structuralKey(new Date(1000)));
+        expect(structuralKey(new Date(1000))).not.toBe(structuralKey(new Date(2000)));
+    });
+
+    it("should compare class instances, functions and symbols by reference", () => {
+        class Point {
+            public x: number;
+
+            public constructor(x: number) {
+                this.x = x;
+            }
+        }
+        const point = new Point(1);
+        const fn = () => 1;
+        const symbol = Symbol("test");
+
+        expect(structuralKey(point)).toBe(structuralKey(point));
+        expect(structuralKey(point)).not.toBe(structuralKey(new Point(1)));
+        expect(structuralKey(fn)).toBe(structuralKey(fn));
+        expect(structuralKey(fn)).not.toBe(structuralKey(() => 1));
+        expect(structuralKey(symbol)).toBe(structuralKey(symbol));
+        expect(structuralKey(symbol)).not.toBe(structuralKey(Symbol("test")));
+        expect(structuralKey({ point })).toBe(structuralKey({ point }));
+    });
+
+    it("should throw on circular references", () => {
+        const value: Record<string, unknown> = { a: 1 };
+        value.self = value;
+        expect(() => structuralKey(value)).toThrow(TypeError);
+    });
+
+    it("should allow repeated non-circular references", () => {
+        const shared = { id: 1 };
+        expect(structuralKey([shared, shared])).toBe(structuralKey([{ id: 1 }, { id: 1 }]));
+    });
+});
+
+describe("argumentsKey", () => {
+    it("should compare arguments with Object.is", () => {
+        const obj = { id: 1 };
+        expect(argumentsKey([1, "a", obj])).toBe(argumentsKey([1, "a", obj]));
+        expect(argumentsKey([obj])).not.toBe(argumentsKey([{ id: 1 }]));
+        expect(argumentsKey([1, 2])).not.toBe(argumentsKey(["1", 2]));
+        expect(argumentsKey([0])).not.toBe(argumentsKey([-0]));
+        expect(argumentsKey([NaN])).toBe(argumentsKey([NaN]));
+    });
+
+    it("should distinguish lists of different length", () => {
+        expect(argumentsKey([1])).not.toBe(argumentsKey([1, undefined]));
+        expect(argumentsKey(["a,b"])).not.toBe(argumentsKey(["a", "b"]));
+    });
+});
@@ -0,0 +1,160 @@
+/**
+ * Identifiers of values that are compared by reference (class instances, functions, symbols).
+ */
+const referenceIds = new WeakMap<WeakKey, number>();
+
+/**
+ * Identifiers of symbols. A regular Map is used, since registered symbols can't be used as WeakMap keys.
+ */
+const symbolIds = new Map<symbol, number>();
+
+/**
+ * The last assigned reference identifier.
+ */
+let lastReferenceId = 0;
+
+/**
+ * Creates a stable string key that describes the structure of a value.
+ *
+ * Plain objects and arrays are compared by their content, so structurally equal values produce the same key
+ * regardless of the order of object properties. Properties with `undefined` values are ignored, like in JSON.
+ * Dates are compared by their time. Other objects, functions and symbols are compared by reference.
+ *
+ * It's intended to be used as the `paramKey` option of parameterized computed flows.
+ *
+ * @param value - The value to create a key for
+ * @returns A string key, equal for structurally equal values
+ * @throws {TypeError} If the value contains circular references
+ *
+ * @example
+ * ```typescript
+ * structuralKey({ id: 1, tags: ["a", "b"] }) === structuralKey({ tags: ["a", "b"], id: 1 }); // true
+ *
+ * const userPosts = computedFlow((ctx, filter: { userId: number; page: number }) => ..., {
+ *   paramKey: structuralKey,
+ * });
+ * ```
+ */
+export function structuralKey(value: unknown): string {
+    return serialize(value, new Set());
+}
+
+/**
+ * Creates a string key for a list of arguments, equal for lists of the same length whose items are equal by `Object.is`.
+ *
+ * Unlike {@link structuralKey}, objects are always compared by reference.
+ * It's used to memoize computed flows with multiple parameters.
+ *
+ * @param args - The list of arguments
+ * @returns A string key, equal for lists of equal arguments
+ */
+export function argumentsKey(args: readonly unknown[]): string {
+    return args
+        .map((arg) => {
+            return typeof arg === "object" && arg !== null
+                ? `#${getReferenceId(arg).toString()}`
+                : serialize(arg, new Set());
+        })
+        .join(",");
+}
+
+/**
+ * Serializes a value into a key string.
+ *
+ * @param value - The value to serialize
+ * @param parents - Objects that are being serialized, used to detect circular references
+ * @returns The key string
+ */
+function serialize(value: unknown, parents: Set<object>): string {
+    switch (typeof value) {
+        case "string":
+            return JSON.stringify(value);
+        case "number":
+            return Object.is(value, -0) ? "-0" : String(value);
+        case "bigint":
+            return `${value.toString()}n`;
+        case "boolean":
+            return String(value);
+        case "undefined":
+            return "undefined";
+        case "symbol":
+            return `#${getSymbolId(value).toString()}`;
+        case "function":
+            return `#${getReferenceId(value).toString()}`;
+    }
+
+    if (value === null || typeof value !== "object") {
+        return "null";
+    }
+
+    if (value instanceof Date) {
+        return `Date(${value.getTime().toString()})`;
+    }
+
+    if (!Array.isArray(value) && !isPlainObject(value)) {
+        return `#${getReferenceId(value).toString()}`;
+    }
+
+    if (parents.has(value)) {
+        throw new TypeError("Unable to create a key for a value with circular references");
+    }
+
+    parents.add(value);
+    try {
+        if (Array.isArray(value)) {
+            return `[${value.map((item: unknown) => serialize(item, parents)).join(",")}]`;
+        }
+
+        const entries: string[] = [];
+        for (const key of Object.keys(value).sort()) {
+            const item = value[key];
+            if (item !== undefined) {
+                entries.push(`${JSON.stringify(key)}:${serialize(item, parents)}`);
+            }
+        }
+        return `{${entries.join(",")}}`;
+    } finally {
+        parents.delete(value);
+    }
+}
+
+/**
+ * Checks whether a value is a plain object (created with an object literal or `Object.create(null)`).
+ *
+ * @param value - The object to check
+ * @returns `true` if the value is a plain object, `false` otherwise
+ */
+function isPlainObject(value: object): value is Record<string, unknown> {
+    const proto: unknown = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Returns a unique identifier of a value compared by reference.
+ *
+ * @param value - The object or function
+ * @returns The identifier of the value
+ */
+function getReferenceId(value: WeakKey): number {
+    let id = referenceIds.get(value);
+    if (id === undefined) {
+        id = ++lastReferenceId;
+        referenceIds.set(value, id);
+    }
+    return id;
+}
+
+/**
+ * Returns a unique identifier of a symbol.
+ *
+ * @param value - The symbol
+ * @returns The identifier of the symbol
+ */
+function getSymbolId(value: symbol): number {
+    let id = symbolIds.get(value);
+    if (id === undefined) {
+        id = ++lastReferenceId;
+        symbolIds.set(value, id);
+    }
+    return id;
+}
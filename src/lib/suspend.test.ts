@@ -0,0 +1,89 @@
+/* eslint-disable @typescript-eslint/require-await */
+import { createAsyncFlow } from "@tsip/flow";
+import { describe, it, expect } from "vitest";
+import { suspend } from "./suspend";
+import { AsyncComputedPromiseFlow } from "../async/promises/instance";
+
+describe("suspend", () => {
+    it("should return the data of a successful flow", () => {
+        const flow = createAsyncFlow({ status: "success", data: 1 });
+        expect(suspend(flow)).toBe(1);
+    });
+
+    it("should throw the error of a failed flow", () => {
+        const error = new Error("Flow error");
+        const flow = createAsyncFlow<number>({ status: "error", error });
+        expect(() => suspend(flow)).toThrow(error);
+    });
+
+    it("should throw the promise of a pending flow", async () => {
+        const flow = createAsyncFlow<number>({ status: "pending" });
+        const thrown = catchThrown(() => suspend(flow));
+        expect(thrown).toBeInstanceOf(Promise);
+
+        flow.emit({ status: "success", data: 1 });
+        await expect(thrown).resolves.toBe(1);
+        expect(suspend(flow)).toBe(1);
+    });
+
+    it("should not report rejections of the thrown promise as unhandled", async () => {
+        const flow = createAsyncFlow<number>({ status: "pending" });
+        catchThrown(() => suspend(flow));
+
+        const error = new Error("Flow error");
+        flow.emit({ status: "error", error });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        expect(() => suspend(flow)).toThrow(error);
+    });
+
+    describe("read", () => {
+        it("should throw the same promise while the flow is pending", async () => {
+            const source = createAsyncFlow<number>({ status: "pending" });
+            const flow = new AsyncComputedPromiseFlow(async ({ watchAsync }) => (await watchAsync(source)) * 2);
+
+            const thrown1 = catchThrown(() => flow.read());
+            const thrown2 = catchThrown(() => flow.read());
+            expect(thrown1).toBeInstanceOf(Promise);
+            expect(thrown1).toBe(thrown2);
+
+            source.emit({ status: "success", data: 2 });
+            await expect(thrown1).resolves.toBe(4);
+            expect(flow.read()).toBe(4);
+        });
+
+        it("should throw a new promise when the flow is pending again", async () => {
+            let version = 1;
+            const flow = new AsyncComputedPromiseFlow(async () => version);
+            const thrown1 = catchThrown(() => flow.read());
+            await thrown1;
+            expect(flow.read()).toBe(1);
+
+            version = 2;
+            flow.invalidate();
+            const thrown2 = catchThrown(() => flow.read());
+            expect(thrown2).toBeInstanceOf(Promise);
+            expect(thrown2).not.toBe(thrown1);
+            await expect(thrown2).resolves.toBe(2);
+        });
+
+        it("should throw the error of a failed computation", async () => {
+            const error = new Error("Compute error");
+            const flow = new AsyncComputedPromiseFlow(async () => {
+                throw error;
+            });
+
+            await expect(catchThrown(() => flow.read())).rejects.toThrow(error);
+            expect(() => flow.read()).toThrow(error);
+        });
+    });
+});
+
+// Helper to get the value thrown by a function
+function catchThrown(fn: () => unknown): unknown {
+    try {
+        fn();
+    } catch (thrown) {
+        return thrown;
+    }
+    throw new Error("Expected the function to throw");
+}
@@ -0,0 +1,46 @@
+import type { AsyncFlow } from "@tsip/types";
+
+/**
+ * Reads the data of an async flow in the way of React Suspense and similar renderers.
+ *
+ * Returns the data in the `success` state and throws the error in the `error` state.
+ * In the `pending` state, it throws the promise returned from `asPromise()`, which async computed flows
+ * keep the same until the flow settles, so renders suspended on the same state receive the same thenable.
+ *
+ * @typeParam T - The type of data of the flow
+ * @param flow - The flow to read
+ * @returns The data of the flow
+ * @throws The error of the flow in the `error` state, or a promise in the `pending` state
+ *
+ * @example
+ * ```tsx
+ * function UserName({ id }: { id: string }) {
+ *   const user = suspend(userFlow(id));
+ *   return <span>{user.name}</span>;
+ * }
+ *
+ * <Suspense fallback={<Spinner />}>
+ *   <UserName id="john123" />
+ * </Suspense>
+ * ```
+ */
+export function suspend<T>(flow: AsyncFlow<T>): T {
+    const state = flow.getSnapshot();
+
+    if (state.status === "success") {
+        return state.data;
+    }
+
+    if (state.status === "error") {
+        throw state.error;
+    }
+
+    const promise = flow.asPromise();
+    // The error is thrown by the next read, so the rejection is not reported as unhandled
+    promise.catch(() => {
+        // noop
+    });
+
+    // eslint-disable-next-line @typescript-eslint/only-throw-error -- Suspense expects a thenable to be thrown
+    throw promise;
+}
@@ -0,0 +1,31 @@
+/**
+ * Creates an error used as the reason of timed out operations.
+ *
+ * @param message - The error message
+ * @returns A `DOMException` with the `TimeoutError` name
+ */
+export function createTimeoutError(message: string): DOMException {
+    return new DOMException(message, "TimeoutError");
+}
+
+/**
+ * Rejects with a `TimeoutError` if the promise doesn't settle within the specified time.
+ *
+ * @typeParam T - The type of value the promise resolves to
+ * @param promise - The promise to wait for
+ * @param ms - The time to wait in milliseconds
+ * @param message - The message of the timeout error
+ * @returns A promise that settles like the original promise, or rejects after the timeout
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            reject(createTimeoutError(message));
+        }, ms);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => {
+        clearTimeout(timer);
+    });
+}
@@ -1,8 +1,69 @@
+import type { Flow } from "@tsip/types";
+import type { FlowComputationBase } from "../base/computation";
+
+/**
+ * Stack of computations whose getters are currently running.
+ * A `null` entry suspends tracking for nested reads (e.g. internal reads of the library).
+ */
+const stack: (FlowComputationBase<unknown, unknown> | null)[] = [];
+
+/**
+ * Global tracking context for implicit dependency tracking.
+ *
+ * While a getter of a computed flow is running, every computed flow read via `getSnapshot()`
+ * is registered as a dependency of the running computation, even if it was read without `ctx.watch`.
+ * This allows to compose functions that don't have access to the computation context.
+ */
 export const tracker = {
-    start() {
-        // todo
+    /**
+     * Runs the function with the computation as the current tracking context.
+     *
+     * @typeParam T - The return type of the function
+     * @param computation - The computation to register dependencies to
+     * @param fn - The function to run, usually a getter of a computed flow
+     * @returns The result of the function
+     */
+    run<T>(computation: FlowComputationBase<unknown, unknown>, fn: () => T): T {
+        stack.push(computation);
+        try {
+            return fn();
+        } finally {
+            stack.pop();
+        }
     },
-    stop() {
-        // todo
+
+    /**
+     * Runs the function with tracking suspended, so flows read inside it are not registered as dependencies.
+     *
+     * @typeParam T - The return type of the function
+     * @param fn - The function to run
+     * @returns The result of the function
+     */
+    untracked<T>(fn: () => T): T {
+        stack.push(null);
+        try {
+            return fn();
+        } finally {
+            stack.pop();
+        }
+    },
+
+    /**
+     * Reads a flow on behalf of the current tracking context.
+     *
+     * If a computation is being tracked, the flow is registered as its dependency along with the read value.
+     * The read itself is performed with tracking suspended.
+     *
+     * @typeParam T - The type of value the flow produces
+     * @param flow - The flow being read
+     * @param read - The function that reads the current value of the flow
+     * @returns The current value of the flow
+     */
+    track<T>(flow: Flow<T>, read: () => T): T {
+        const computation = stack.at(-1);
+        if (!computation) {
+            return read();
+        }
+        return computation.track(flow, () => tracker.untracked(read));
     },
 };
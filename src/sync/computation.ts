@@ -20,7 +20,78 @@ export interface FlowComputationContext {
      * const value = watch(someFlow); // Reads current value and creates dependency
      * ```
      */
-    readonly watch: <T>(flow: Flow<T>) => T;
+    readonly watch: {
+        <T>(flow: Flow<T>): T;
+
+        /**
+         * Synchronously reads a slice of the current value from a flow.
+         *
+         * The computation depends only on the selected slice: it's re-run when the slice changes
+         * according to `equals`, and not when other parts of the flow value change.
+         *
+         * @param flow - The flow to read the value from
+         * @param selector - The function that selects the slice from the flow value
+         * @param equals - The function that compares selected slices, `Object.is` by default
+         * @returns The selected slice of the current value of the flow
+         * @throws Will throw an error if the flow is in an error state
+         *
+         * @example
+         * ```typescript
+         * const name = watch(userFlow, (user) => user.name); // Ignores changes of other fields
+         * ```
+         */
+        <T, S>(flow: Flow<T>, selector: (value: T) => S, equals?: (a: S, b: S) => boolean): S;
+    };
+
+    /**
+     * Reads the current value from a flow without establishing a dependency.
+     *
+     * Changes of the flow don't trigger recomputation. It's useful for reading values
+     * that the result doesn't depend on, e.g. for logging.
+     *
+     * @param flow - The flow to read the value from
+     * @returns The current value of the flow
+     * @throws Will throw an error if the flow is in an error state
+     *
+     * @example
+     * ```typescript
+     * const level = peek(logLevelFlow); // Reads current value without creating dependency
+     * ```
+     */
+    readonly peek: <T>(flow: Flow<T>) => T;
+
+    /**
+     * Runs a function without establishing dependencies on the flows read inside it,
+     * either with `watch` or with `getSnapshot`.
+     *
+     * Only the synchronous part of the function is untracked.
+     *
+     * @param fn - The function to run
+     * @returns The result of the function
+     *
+     * @example
+     * ```typescript
+     * const config = untracked(() => readConfig()); // Flows read by readConfig are not dependencies
+     * ```
+     */
+    readonly untracked: <T>(fn: () => T) => T;
+
+    /**
+     * Registers a function that releases resources allocated by the computation,
+     * such as timers, listeners or object URLs.
+     *
+     * The function is called when the computation is superseded by a newer one, when it's aborted,
+     * or when the flow loses its last subscriber.
+     *
+     * @param fn - The cleanup function
+     *
+     * @example
+     * ```typescript
+     * const url = URL.createObjectURL(watch(blobFlow));
+     * onCleanup(() => URL.revokeObjectURL(url));
+     * ```
+     */
+    readonly onCleanup: (fn: () => void) => void;
 
     /**
      * Cancels the current computation and prevents the flow value from being updated.
@@ -54,7 +125,14 @@ export class FlowComputation<T> extends FlowComputationBase<T, FlowComputationCo
      */
     public getContext(): FlowComputationContext {
         return {
-            watch: (flow) => this.readFlow(flow),
+            watch: ((flow: Flow<unknown>, selector?: (value: unknown) => unknown, equals = Object.is) => {
+                return selector ? this.readFlowSlice(flow, selector, equals) : this.readFlow(flow);
+            }) as FlowComputationContext["watch"],
+            peek: (flow) => this.peek(flow),
+            untracked: (fn) => this.untracked(fn),
+            onCleanup: (fn) => {
+                this.onCleanup(fn);
+            },
             skip: () => this.skip(),
         };
     }
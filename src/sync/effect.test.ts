@@ -0,0 +1,282 @@
+/* eslint-disable @typescript-eslint/require-await */
+import { createFlow } from "@tsip/flow";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { effect } from "./effect";
+import { ComputedFlow } from "./instance";
+import { batch } from "../lib/batch";
+import { configure } from "../lib/config";
+
+describe("effect", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "error").mockImplementation(() => {
+            // noop
+        });
+    });
+
+    afterEach(() => {
+        expect(console.error).not.toHaveBeenCalled();
+        vi.mocked(console.error).mockClear();
+    });
+
+    it("should run the effect immediately", () => {
+        const source = createFlow(1);
+        const fn = vi.fn();
+
+        effect(({ watch }) => {
+            fn(watch(source));
+        });
+
+        expect(fn).toHaveBeenCalledTimes(1);
+        expect(fn).toHaveBeenCalledWith(1);
+    });
+
+    it("should re-run the effect when watched flows change", () => {
+        const source = createFlow(1);
+        const doubled = new ComputedFlow(({ watch }) => watch(source) * 2);
+        const fn = vi.fn();
+
+        effect(({ watch }) => {
+            fn(watch(doubled));
+        });
+
+        source.emit(2);
+        source.emit(3);
+
+        expect(fn.mock.calls).toEqual([[2], [4], [6]]);
+    });
+
+    it("should not re-run the effect if the watched values are not changed", () => {
+        const source = createFlow(1);
+        const isOdd = new ComputedFlow(({ watch }) => watch(source) % 2 === 1);
+        const fn = vi.fn();
+
+        effect(({ watch }) => {
+            fn(watch(isOdd));
+        });
+
+        source.emit(3);
+
+        expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should run the effect once per batch", () => {
+        const firstName = createFlow("John");
+        const lastName = createFlow("Doe");
+        const fn = vi.fn();
+
+        effect(({ watch }) => {
+            fn(`${watch(firstName)} ${watch(lastName)}`);
+        });
+
+        batch(() => {
+            firstName.emit("Jane");
+            lastName.emit("Smith");
+        });
+
+        expect(fn.mock.calls).toEqual([["John Doe"], ["Jane Smith"]]);
+    });
+
+    it("should run the previous cleanup before re-running", () => {
+        const source = createFlow(1);
+        const calls: string[] = [];
+
+        effect(({ watch }) => {
+            const value = watch(source);
+            calls.push(`run ${value.toString()}`);
+            return () => {
+                calls.push(`cleanup ${value.toString()}`);
+            };
+        });
+
+        source.emit(2);
+
+        expect(calls).toEqual(["run 1", "cleanup 1", "run 2"]);
+    });
+
+    it("should stop re-running and run the cleanup when disposed", () => {
+        const source = createFlow(1);
+        const cleanup = vi.fn();
+        const fn = vi.fn(() => cleanup);
+
+        const dispose = effect(({ watch }) => {
+            watch(source);
+            return fn();
+        });
+
+        dispose();
+        expect(cleanup).toHaveBeenCalledTimes(1);
+
+        source.emit(2);
+        expect(fn).toHaveBeenCalledTimes(1);
+
+        dispose();
+        expect(cleanup).toHaveBeenCalledTimes(1);
+    });
+
+    it("should abort the signal of the previous run", () => {
+        const source = createFlow(1);
+        const signals: AbortSignal[] = [];
+
+        const dispose = effect(({ watch, signal }) => {
+            watch(source);
+            signals.push(signal);
+        });
+
+        source.emit(2);
+        expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+
+        dispose();
+        expect(signals.map((signal) => signal.aborted)).toEqual([true, true]);
+    });
+
+    it("should log errors and re-run on the next change", () => {
+        const source = createFlow(1);
+        const fn = vi.fn();
+
+        effect(({ watch }) => {
+            const value = watch(source);
+            if (value === 1) {
+                throw new Error("Effect error");
+            }
+            fn(value);
+        });
+
+        expect(console.error).toHaveBeenCalledTimes(1);
+        const error = vi.mocked(console.error).mock.calls[0]?.[0] as Error;
+        expect(error.message).toBe("Failed to run effect");
+        expect(error.cause).toEqual(new Error("Effect error"));
+        vi.mocked(console.error).mockClear();
+
+        source.emit(2);
+        expect(fn).toHaveBeenCalledWith(2);
+    });
+
+    it("should not be tracked by a computation it's created in", () => {
+        const source = createFlow(1);
+        const getter = vi.fn(() => {
+            const dispose = effect(({ watch }) => {
+                watch(source);
+            });
+            dispose();
+            return 0;
+        });
+        const flow = new ComputedFlow(getter);
+        flow.subscribe(vi.fn());
+
+        source.emit(2);
+        flow.getSnapshot();
+
+        expect(getter).toHaveBeenCalledTimes(1);
+    });
+
+    describe("async effects", () => {
+        it("should use the resolved cleanup", async () => {
+            const source = createFlow(1);
+            const cleanup = vi.fn();
+
+            effect(async ({ watch }) => {
+                watch(source);
+                return cleanup;
+            });
+            await Promise.resolve();
+
+            source.emit(2);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it("should run the cleanup of a superseded run once it's resolved", async () => {
+            const source = createFlow(1);
+            const cleanups = [vi.fn(), vi.fn()];
+            const resolvers: (() => void)[] = [];
+
+            effect(async ({ watch }) => {
+                const value = watch(source);
+                await new Promise<void>((resolve) => resolvers.push(resolve));
+                return cleanups[value - 1];
+            });
+
+            source.emit(2);
+            resolvers[0]?.();
+            await vi.waitFor(() => {
+                expect(cleanups[0]).toHaveBeenCalledTimes(1);
+            });
+
+            resolvers[1]?.();
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            expect(cleanups[1]).not.toHaveBeenCalled();
+        });
+
+        it("should abort the signal of a superseded run", async () => {
+            const source = createFlow(1);
+            const signals: AbortSignal[] = [];
+
+            const dispose = effect(async ({ watch, signal }) => {
+                watch(source);
+                signals.push(signal);
+                await new Promise((_, reject) => {
+                    signal.addEventListener("abort", () => {
+                        reject(signal.reason as Error);
+                    });
+                });
+            });
+
+            source.emit(2);
+            expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+
+            dispose();
+            expect(signals.map((signal) => signal.aborted)).toEqual([true, true]);
+
+            // Abort errors of superseded runs are not logged
+            await new Promise((resolve) => setTimeout(resolve, 0));
+        });
+
+        it("should log rejections", async () => {
+            effect(async () => {
+                throw new Error("Async error");
+            });
+
+            await vi.waitFor(() => {
+                expect(console.error).toHaveBeenCalledTimes(1);
+            });
+            const error = vi.mocked(console.error).mock.calls[0]?.[0] as Error;
+            expect(error.cause).toEqual(new Error("Async error"));
+            vi.mocked(console.error).mockClear();
+        });
+    });
+
+    describe("onComputationError handler", () => {
+        afterEach(() => {
+            configure({ onComputationError: undefined });
+        });
+
+        it("should report errors once instead of logging them", () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+            const source = createFlow(1);
+
+            effect(({ watch }) => {
+                watch(source);
+                throw new Error("Effect error");
+            });
+            expect(onComputationError).toHaveBeenCalledTimes(1);
+            expect(onComputationError).toHaveBeenCalledWith(new Error("Effect error"), expect.any(ComputedFlow));
+
+            source.emit(2);
+            expect(onComputationError).toHaveBeenCalledTimes(2);
+        });
+
+        it("should report rejections instead of logging them", async () => {
+            const onComputationError = vi.fn();
+            configure({ onComputationError });
+
+            effect(async () => {
+                throw new Error("Async error");
+            });
+
+            await vi.waitFor(() => {
+                expect(onComputationError).toHaveBeenCalledTimes(1);
+            });
+            expect(onComputationError).toHaveBeenCalledWith(new Error("Async error"), expect.any(ComputedFlow));
+        });
+    });
+});
@@ -0,0 +1,169 @@
+import type { FlowComputationContext } from "./computation";
+import { ComputedFlow } from "./instance";
+import { getGlobalErrorHandlers } from "../lib/config";
+import { isAbortError } from "../lib/isAbortError";
+import { isPromiseLike } from "../lib/isPromiseLike";
+import { tracker } from "../lib/tracker";
+
+/**
+ * A function returned from an effect to release the resources of its run.
+ */
+export type EffectCleanup = () => void;
+
+/**
+ * Context object provided to effect functions.
+ */
+export interface EffectContext extends FlowComputationContext {
+    /**
+     * Abort signal of the current run.
+     *
+     * It's aborted before the effect runs again and when the effect is disposed,
+     * allowing async effects to cancel their operations.
+     */
+    readonly signal: AbortSignal;
+}
+
+/**
+ * A function that performs side effects based on the flows it watches.
+ *
+ * It may return a cleanup function, or a promise that resolves to one for async effects.
+ *
+ * @param ctx - The context used for dependency tracking
+ * @returns An optional cleanup function
+ */
+// eslint-disable-next-line @typescript-eslint/no-invalid-void-type -- Effects usually don't return anything
+export type EffectCallback = (ctx: EffectContext) => EffectCleanup | void | Promise<EffectCleanup | void>;
+
+/**
+ * Runs a side effect and re-runs it whenever the flows it watches change.
+ *
+ * The effect runs immediately. Before each re-run and when the effect is disposed, the cleanup
+ * returned from the previous run is called and the `signal` of the previous run is aborted.
+ * For async effects, only flows watched before the first `await` are tracked, and the cleanup
+ * is called as soon as it's resolved if the run has already been superseded.
+ *
+ * Errors thrown by the effect are passed to the `onComputationError` handler set with `configure`,
+ * or logged if it's not set, and the effect runs again on the next change of its dependencies.
+ *
+ * @param fn - The effect function
+ * @returns A function that disposes the effect
+ *
+ * @example
+ * ```typescript
+ * const userId = createFlow("user-1");
+ *
+ * const dispose = effect(({ watch, signal }) => {
+ *   const id = watch(userId);
+ *   const socket = connect(id, { signal });
+ *   return () => socket.close();
+ * });
+ *
+ * userId.emit("user-2"); // Closes the first socket and connects again
+ * dispose(); // Closes the second socket
+ * ```
+ */
+export function effect(fn: EffectCallback): () => void {
+    let cleanup: EffectCleanup | undefined;
+    let controller: AbortController | undefined;
+    let disposed = false;
+
+    const runCleanup = () => {
+        controller?.abort();
+        controller = undefined;
+
+        const current = cleanup;
+        cleanup = undefined;
+        current?.();
+    };
+
+    const flow = new ComputedFlow<void>((ctx) => {
+        runCleanup();
+
+        const runController = new AbortController();
+        controller = runController;
+
+        const result = fn({ ...ctx, signal: runController.signal });
+        if (!isPromiseLike(result)) {
+            cleanup = toCleanup(result);
+            return;
+        }
+
+        result.then(
+            (asyncCleanup) => {
+                if (runController.signal.aborted) {
+                    // The run was superseded while pending, so its resources are released right away
+                    toCleanup(asyncCleanup)?.();
+                } else {
+                    cleanup = toCleanup(asyncCleanup);
+                }
+            },
+            (error: unknown) => {
+                if (!(runController.signal.aborted && isAbortError(error))) {
+                    reportError(error, flow);
+                }
+            },
+        );
+    });
+
+    const run = () => {
+        try {
+            // The effect is not a dependency of a computation it may be created in
+            tracker.untracked(() => {
+                flow.getSnapshot();
+            });
+        } catch (error) {
+            // The flow has already passed the error to the `onComputationError` handler, if it's set
+            if (!getGlobalErrorHandlers().onComputationError) {
+                logError(error);
+            }
+        }
+    };
+
+    const subscription = flow.subscribe(run);
+    run();
+
+    return () => {
+        if (disposed) {
+            return;
+        }
+
+        disposed = true;
+        subscription.unsubscribe();
+        runCleanup();
+    };
+}
+
+/**
+ * Passes an error thrown by an effect to the `onComputationError` handler set with `configure`,
+ * or logs it if the handler is not set.
+ *
+ * @param error - The error thrown by the effect
+ * @param flow - The flow running the effect
+ */
+function reportError(error: unknown, flow: ComputedFlow<void>): void {
+    const { onComputationError } = getGlobalErrorHandlers();
+    if (onComputationError) {
+        onComputationError(error, flow);
+    } else {
+        logError(error);
+    }
+}
+
+/**
+ * Logs an error thrown by an effect.
+ *
+ * @param error - The error thrown by the effect
+ */
+function logError(error: unknown): void {
+    console.error(new Error("Failed to run effect", { cause: error }));
+}
+
+/**
+ * Returns the cleanup function returned from an effect run, if any.
+ *
+ * @param result - The value returned from the effect
+ * @returns The cleanup function, or `undefined` if the effect didn't return one
+ */
+function toCleanup(result: unknown): EffectCleanup | undefined {
+    return typeof result === "function" ? (result as EffectCleanup) : undefined;
+}
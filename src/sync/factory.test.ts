@@ -1,7 +1,11 @@
-import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
-import type { Flow } from "@tsip/types";
+import { describe, it, expect, expectTypeOf, beforeEach, afterEach, vi } from "vitest";
+import type { Flow, FlowSubscription } from "@tsip/types";
 import { createFlow } from "@tsip/flow";
 import { computedFlow } from "./factory";
+import type { FlowComputationContext } from "./computation";
+import type { ComputedFlow, InvalidatableFlow } from "./instance";
+import type { FlowFamily } from "../lib/flowFamily";
+import { structuralKey } from "../lib/structuralKey";
 
 describe("ComputedFlow factory", () => {
     describe("without param", () => {
@@ -10,7 +14,7 @@ describe("ComputedFlow factory", () => {
             const flow = computedFlow(({ watch }) => {
                 return watch(source) * 2;
             });
-            expectTypeOf(flow).toEqualTypeOf<Flow<number>>();
+            expectTypeOf(flow).toEqualTypeOf<InvalidatableFlow<number>>();
             expect(flow.getSnapshot()).toBe(4);
         });
     });
@@ -21,7 +25,7 @@ describe("ComputedFlow factory", () => {
             const flow = computedFlow(({ watch }, param: number) => {
                 return watch(source) * param;
             });
-            expectTypeOf(flow).toEqualTypeOf<(param: number) => Flow<number>>();
+            expectTypeOf(flow).toEqualTypeOf<FlowFamily<[param: number], InvalidatableFlow<number>>>();
             expect(flow(5).getSnapshot()).toBe(10);
         });
 
@@ -31,11 +35,32 @@ describe("ComputedFlow factory", () => {
             const flow = computedFlow(({ watch }, param: number = 2) => {
                 return watch(source) * param;
             });
-            expectTypeOf(flow).toEqualTypeOf<Flow<number>>();
+            expectTypeOf(flow).toEqualTypeOf<InvalidatableFlow<number>>();
             expect(flow.getSnapshot()).toBe(4);
         });
     });
 
+    describe("with multiple params", () => {
+        it("should compute and return value", () => {
+            const source = createFlow(2);
+            const flow = computedFlow(({ watch }, a: number, b: string) => {
+                return `${b}:${(watch(source) * a).toString()}`;
+            });
+            expectTypeOf(flow).toEqualTypeOf<FlowFamily<[a: number, b: string], InvalidatableFlow<string>>>();
+            expect(flow(5, "x").getSnapshot()).toBe("x:10");
+        });
+
+        it("should ignore params with default values", () => {
+            const source = createFlow(2);
+            // eslint-disable-next-line @typescript-eslint/no-inferrable-types
+            const flow = computedFlow(({ watch }, a: number, b: number = 3) => {
+                return watch(source) * a * b;
+            });
+            expectTypeOf(flow).toEqualTypeOf<FlowFamily<[param: number], InvalidatableFlow<number>>>();
+            expect(flow(5).getSnapshot()).toBe(30);
+        });
+    });
+
     describe("memoization", () => {
         it("should return the same instance for equal params", () => {
             const source = createFlow(2);
@@ -69,6 +94,150 @@ describe("ComputedFlow factory", () => {
             expect(instance1).toBe(instance2);
             expect(instance1).not.toBe(instance3);
         });
+
+        it("should look up instances by param key", () => {
+            const source = createFlow(2);
+            const flow = computedFlow(
+                ({ watch }, param: { id: number; name: string }) => {
+                    return watch(source) * param.id;
+                },
+                {
+                    paramKey: (param: { id: number; name: string }) => param.id,
+                },
+            );
+
+            const instance1 = flow({ id: 1, name: "first" });
+            const instance2 = flow({ id: 1, name: "second" });
+            const instance3 = flow({ id: 2, name: "first" });
+
+            expect(instance1).toBe(instance2);
+            expect(instance1).not.toBe(instance3);
+        });
+
+        it("should look up instances by structural key", () => {
+            const source = createFlow(2);
+            const flow = computedFlow(
+                ({ watch }, param: { id: number; name: string }) => {
+                    return watch(source) * param.id;
+                },
+                {
+                    paramKey: structuralKey,
+                },
+            );
+
+            const instance1 = flow({ id: 1, name: "first" });
+            const instance2 = flow({ name: "first", id: 1 });
+            const instance3 = flow({ id: 1, name: "second" });
+
+            expect(instance1).toBe(instance2);
+            expect(instance1).not.toBe(instance3);
+        });
+
+        it("should return the same instance for equal lists of params", () => {
+            const source = createFlow(2);
+            const getter = vi.fn(({ watch }: FlowComputationContext, a: number, b: { id: number }) => {
+                return watch(source) * a * b.id;
+            });
+            const flow = computedFlow(getter);
+            const param = { id: 1 };
+
+            const instance1 = flow(1, param);
+            const instance2 = flow(1, param);
+            const instance3 = flow(1, { id: 1 });
+            const instance4 = flow(2, param);
+
+            expect(instance1).toBe(instance2);
+            expect(instance1).not.toBe(instance3);
+            expect(instance1).not.toBe(instance4);
+        });
+
+        it("should not confuse params of different types", () => {
+            const source = createFlow(2);
+            const flow = computedFlow(({ watch }, a: number | string, b: number | string) => {
+                return `${String(watch(source))}:${String(a)}:${String(b)}`;
+            });
+
+            expect(flow(1, 2)).not.toBe(flow("1", 2));
+            expect(flow(1, 2)).not.toBe(flow(1, "2"));
+            expect(flow(1, 2)).not.toBe(flow(2, 1));
+            expect(flow(0, 1)).not.toBe(flow(-0, 1));
+        });
+
+        it("should compare lists of params with custom function", () => {
+            const source = createFlow(2);
+            const flow = computedFlow(
+                ({ watch }, a: { id: number }, b: { id: number }) => {
+                    return watch(source) * a.id * b.id;
+                },
+                {
+                    paramEquals: ([a1, b1]: [{ id: number }, { id: number }], [a2, b2]) =>
+                        a1.id === a2.id && b1.id === b2.id,
+                },
+            );
+
+            expect(flow({ id: 1 }, { id: 2 })).toBe(flow({ id: 1 }, { id: 2 }));
+            expect(flow({ id: 1 }, { id: 2 })).not.toBe(flow({ id: 2 }, { id: 1 }));
+        });
+
+        it("should look up instances by key of the list of params", () => {
+            const source = createFlow(2);
+            const flow = computedFlow(
+                ({ watch }, a: { id: number }, b: { id: number }) => {
+                    return watch(source) * a.id * b.id;
+                },
+                {
+                    paramKey: structuralKey,
+                },
+            );
+
+            expect(flow({ id: 1 }, { id: 2 })).toBe(flow({ id: 1 }, { id: 2 }));
+            expect(flow({ id: 1 }, { id: 2 })).not.toBe(flow({ id: 2 }, { id: 1 }));
+        });
+    });
+
+    describe("name", () => {
+        it("should suffix names of instances with params", () => {
+            const single = computedFlow((_ctx, id: number | string) => id, { name: "single" });
+            const multiple = computedFlow((_ctx, a: number, b: { id: number }) => a + b.id, { name: "multiple" });
+
+            expect((single(1) as ComputedFlow<unknown>).name).toBe("single(1)");
+            expect((single("1") as ComputedFlow<unknown>).name).toBe('single("1")');
+            expect((multiple(1, { id: 2 }) as ComputedFlow<unknown>).name).toBe('multiple(1, {"id":2})');
+        });
+
+        it("should not add names to instances of unnamed flows", () => {
+            const flow = computedFlow((_ctx, id: number) => id);
+            expect((flow(1) as ComputedFlow<unknown>).name).toBeUndefined();
+        });
+    });
+
+    describe("invalidateAll", () => {
+        it("should recompute all cached flows of the family", () => {
+            const getter = vi.fn((_ctx: FlowComputationContext, param: number) => param * 2);
+            const getFlow = computedFlow(getter);
+            const flow1 = getFlow(1);
+            const flow2 = getFlow(2);
+            const listener = vi.fn();
+            flow1.subscribe(listener);
+            flow2.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(2);
+
+            getFlow.invalidateAll();
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow1.getSnapshot()).toBe(2);
+            expect(flow2.getSnapshot()).toBe(4);
+            expect(getter).toHaveBeenCalledTimes(4);
+        });
+
+        it("should recompute all cached flows of a family with multiple params", () => {
+            const getter = vi.fn((_ctx: FlowComputationContext, a: number, b: number) => a + b);
+            const getFlow = computedFlow(getter);
+            getFlow(1, 2).getSnapshot();
+
+            getFlow.invalidateAll();
+            expect(getFlow(1, 2).getSnapshot()).toBe(3);
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
     });
 
     describe("garbage collection", () => {
@@ -131,6 +300,90 @@ describe("ComputedFlow factory", () => {
             expect(flow2).toBe(weakRef.deref());
         });
     });
+
+    describe("cache options", () => {
+        beforeEach(async () => {
+            await triggerGC();
+        });
+
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should hold recently used flows up to cache.maxSize", async () => {
+            const source = createFlow(2);
+            const getFlow = computedFlow(({ watch }, param: number) => watch(source) * param, {
+                cache: { maxSize: 1 },
+            });
+
+            const weakRef1 = new WeakRef(getFlow(1));
+            const weakRef2 = new WeakRef(getFlow(2));
+
+            await triggerGC();
+
+            expect(isCollected(weakRef1)).toBe(true);
+            expect(isCollected(weakRef2)).toBe(false);
+            expect(getFlow(2)).toBe(weakRef2.deref());
+        });
+
+        it("should hold subscribed flows regardless of cache.ttl with cache.retainSubscribed", async () => {
+            vi.useFakeTimers();
+            const source = createFlow(2);
+            const getFlow = computedFlow(({ watch }, param: number) => watch(source) * param, {
+                cache: { ttl: 1000, retainSubscribed: true },
+            });
+
+            let subscription: FlowSubscription | null = getFlow(1).subscribe(vi.fn());
+            const weakRef = new WeakRef(getFlow(1));
+
+            vi.advanceTimersByTime(5000);
+            subscription.unsubscribe();
+            subscription = null;
+
+            vi.useRealTimers();
+            await triggerGC();
+            expect(isCollected(weakRef)).toBe(false);
+        });
+
+        it("should release unsubscribed flows after cache.ttl with cache.retainSubscribed", async () => {
+            vi.useFakeTimers();
+            const source = createFlow(2);
+            const getFlow = computedFlow(({ watch }, param: number) => watch(source) * param, {
+                cache: { ttl: 1000, retainSubscribed: true },
+            });
+
+            let subscription: FlowSubscription | null = getFlow(1).subscribe(vi.fn());
+            const weakRef = new WeakRef(getFlow(1));
+
+            vi.advanceTimersByTime(5000);
+            subscription.unsubscribe();
+            subscription = null;
+            vi.advanceTimersByTime(1000);
+
+            vi.useRealTimers();
+            await triggerGC();
+            expect(isCollected(weakRef)).toBe(true);
+        });
+
+        it("should release subscribed flows after cache.ttl without cache.retainSubscribed", async () => {
+            vi.useFakeTimers();
+            const source = createFlow(2);
+            const getFlow = computedFlow(({ watch }, param: number) => watch(source) * param, {
+                cache: { ttl: 1000 },
+            });
+
+            let subscription: FlowSubscription | null = getFlow(1).subscribe(vi.fn());
+            const weakRef = new WeakRef(getFlow(1));
+
+            vi.advanceTimersByTime(5000);
+            subscription.unsubscribe();
+            subscription = null;
+
+            vi.useRealTimers();
+            await triggerGC();
+            expect(isCollected(weakRef)).toBe(true);
+        });
+    });
 });
 
 // Helper to trigger garbage collection if available
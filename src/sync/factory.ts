@@ -1,6 +1,10 @@
-import { ComputedFlow } from "./instance";
+import { ComputedFlow, type InvalidatableFlow } from "./instance";
 import type { FlowComputationContext } from "./computation";
-import { memoize } from "../lib/memoize";
+import { memoize, type CacheOptions } from "../lib/memoize";
+import { argumentsKey } from "../lib/structuralKey";
+import { setFlowParam } from "../lib/inspect";
+import { withFamilyMemberName } from "../lib/familyMemberName";
+import { createFlowFamily, type FlowFamily } from "../lib/flowFamily";
 import type { Flow } from "@tsip/types";
 
 /**
@@ -9,9 +13,10 @@ import type { Flow } from "@tsip/types";
  * @typeParam Data - The type of value returned by the computation
  * @param ctx - The computation context providing access to reactive dependencies
  * @param param - Always undefined for parameterless getters
+ * @param rest - Always empty for parameterless getters
  * @returns The computed value
  */
-export type ComputedFlowGetter<Data> = (ctx: FlowComputationContext, param: undefined) => Data;
+export type ComputedFlowGetter<Data> = (ctx: FlowComputationContext, param: undefined, ...rest: undefined[]) => Data;
 
 /**
  * A function that computes flow's value and require a parameter.
@@ -24,13 +29,78 @@ export type ComputedFlowGetter<Data> = (ctx: FlowComputationContext, param: unde
  */
 export type ComputedFlowGetterWithParam<Data, Param> = (ctx: FlowComputationContext, param: Param) => Data;
 
+/**
+ * A function that computes flow's value and require multiple parameters.
+ *
+ * @typeParam Data - The type of value returned by the computation
+ * @typeParam Params - The types of parameters passed to the computation
+ * @param ctx - The computation context providing access to reactive dependencies
+ * @param params - The parameter values used in the computation
+ * @returns The computed value
+ */
+export type ComputedFlowGetterWithParams<Data, Params extends unknown[]> = (
+    ctx: FlowComputationContext,
+    ...params: Params
+) => Data;
+
 /**
  * Configuration options for computed flows.
  *
  * @typeParam Data - The type of value returned by the computation
- * @typeParam Param - The type of parameter passed to the computation (if any)
+ * @typeParam Param - The type of parameter passed to the computation (if any),
+ * or the tuple of parameter types for computations with multiple parameters
  */
 export interface ComputedFlowOptions<Data, Param> {
+    /**
+     * The debug label of the flow.
+     *
+     * It's used in logged errors and in errors of the getter, which are wrapped into an error
+     * with the label and the original error as the `cause`. For parameterized flows,
+     * the name of each instance is suffixed with its parameters, e.g. `user(42)`.
+     */
+    name?: string;
+
+    /**
+     * How long the flow keeps tracking its sources after the last subscriber is removed.
+     *
+     * Subscribers that come back within the grace period reuse the current value without recomputation.
+     * A number is the grace period in milliseconds, `true` keeps the flow active forever,
+     * and `false` or `0` stops tracking immediately.
+     *
+     * @default false
+     *
+     * @example
+     * ```typescript
+     * // Keep the flow active for 5 seconds after the last component unmounts
+     * keepAlive: 5_000
+     * ```
+     */
+    keepAlive?: number | boolean;
+
+    /**
+     * Whether the flow recomputes as soon as its sources change while it's subscribed,
+     * instead of waiting for the next read. Listeners observe the already computed value.
+     *
+     * @default false
+     */
+    eager?: boolean;
+
+    /**
+     * Called when a listener of the flow throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the listener
+     * @param flow - The flow whose listener has thrown
+     */
+    onListenerError?: (error: unknown, flow: Flow<unknown>) => void;
+
+    /**
+     * Called when the getter throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the getter
+     * @param flow - The flow whose getter has thrown
+     */
+    onComputationError?: (error: unknown, flow: Flow<unknown>) => void;
+
     /**
      * The initial value to use when the computation fails with an abort error
      * and no cached value is available.
@@ -60,7 +130,8 @@ export interface ComputedFlowOptions<Data, Param> {
      * Function to compare parameters to determine cache key equality.
      *
      * This is used to find existing computed flows in the cache when
-     * the same parameter is used multiple times.
+     * the same parameter is used multiple times. For computations with multiple
+     * parameters, the lists of parameters are compared.
      *
      * @param a - The first parameter to compare
      * @param b - The second parameter to compare
@@ -74,6 +145,42 @@ export interface ComputedFlowOptions<Data, Param> {
      * ```
      */
     paramEquals?: (a: Param, b: Param) => boolean;
+
+    /**
+     * Function to map parameters to cache keys.
+     *
+     * Parameters with the same key share the same computed flow instance. Unlike `paramEquals`,
+     * which compares the parameter with every cached one, the lookup by key takes constant time.
+     * When provided, `paramEquals` is ignored. For computations with multiple parameters,
+     * the key is created for the list of parameters.
+     *
+     * @param param - The parameter to create a key for
+     * @returns The cache key for the parameter
+     *
+     * @example
+     * ```typescript
+     * // Use an identifier as the key
+     * paramKey: (param) => param.id
+     *
+     * // Compare plain objects and arrays by their content
+     * paramKey: structuralKey
+     * ```
+     */
+    paramKey?: (param: Param) => string | number;
+
+    /**
+     * Limits for holding instances of a parameterized flow in the cache.
+     *
+     * By default, instances are cached with weak references and are released once garbage collected.
+     * With this option, instances are held strongly within the configured limits.
+     *
+     * @example
+     * ```typescript
+     * // Keep up to 100 recently used instances for a minute, and all subscribed instances
+     * cache: { maxSize: 100, ttl: 60_000, retainSubscribed: true }
+     * ```
+     */
+    cache?: CacheOptions;
 }
 
 /**
@@ -95,7 +202,7 @@ export interface ComputedFlowOptions<Data, Param> {
 export function computedFlow<Data = unknown, Param = never>(
     getter: ComputedFlowGetter<Data>,
     options?: ComputedFlowOptions<Data, Param>,
-): Flow<Data>;
+): InvalidatableFlow<Data>;
 
 /**
  * Creates a parameterized computed flow factory.
@@ -119,7 +226,33 @@ export function computedFlow<Data = unknown, Param = never>(
 export function computedFlow<Data = unknown, Param = never>(
     getter: ComputedFlowGetterWithParam<Data, Param>,
     options?: ComputedFlowOptions<Data, Param>,
-): (param: Param) => Flow<Data>;
+): FlowFamily<[param: Param], InvalidatableFlow<Data>>;
+
+/**
+ * Creates a computed flow factory with multiple parameters.
+ *
+ * Each combination of parameters gets its own memoized instance. By default, the parameters are compared
+ * one by one with `Object.is`; `paramEquals` and `paramKey` receive the list of parameters.
+ *
+ * @typeParam Data - The type of value returned by the computation
+ * @typeParam Params - The types of parameters passed to the computation
+ * @param getter - The computation function that takes parameters and produces value
+ * @param options - Optional configuration for the computed flow
+ * @returns A function that creates computed flow instances for given parameters
+ *
+ * @example
+ * ```typescript
+ * const memberRole = computedFlow((ctx, orgId: string, userId: string) => {
+ *   return ctx.watch(membersFlow(orgId)).find((member) => member.userId === userId)?.role;
+ * });
+ *
+ * const role = memberRole('acme', 'john123');
+ * ```
+ */
+export function computedFlow<Data = unknown, Params extends [unknown, unknown, ...unknown[]] = never>(
+    getter: ComputedFlowGetterWithParams<Data, Params>,
+    options?: ComputedFlowOptions<Data, Params>,
+): FlowFamily<Params, InvalidatableFlow<Data>>;
 
 /**
  * Creates a computed flow with automatic parameter detection.
@@ -136,21 +269,60 @@ export function computedFlow<Data = unknown, Param = never>(
  * @internal This overload is used for implementation and type inference
  */
 export function computedFlow<Data = unknown, Param = never>(
-    getter: ComputedFlowGetter<Data> | ComputedFlowGetterWithParam<Data, Param>,
+    getter:
+        | ComputedFlowGetter<Data>
+        | ComputedFlowGetterWithParam<Data, Param>
+        | ComputedFlowGetterWithParams<Data, unknown[]>,
     options?: ComputedFlowOptions<Data, Param>,
-): Flow<Data> | ((param: Param) => Flow<Data>) {
+):
+    | InvalidatableFlow<Data>
+    | FlowFamily<[param: Param], InvalidatableFlow<Data>>
+    | FlowFamily<unknown[], InvalidatableFlow<Data>> {
+    if (hasGetterParams(getter)) {
+        // Create a memoized factory keyed by the list of parameters
+        const paramsOptions = options as ComputedFlowOptions<Data, unknown[]> | undefined;
+        const factory = memoize(
+            (params: unknown[]) => {
+                const flow = new ComputedFlow<Data>(
+                    (ctx) => {
+                        return getter(ctx, ...params);
+                    },
+                    withFamilyMemberName(options, params),
+                );
+                setFlowParam(flow, params);
+                return flow;
+            },
+            {
+                equals: paramsOptions?.paramEquals,
+                key: paramsOptions?.paramKey ?? (paramsOptions?.paramEquals ? undefined : argumentsKey),
+                cache: options?.cache,
+                isSubscribed: (flow) => flow.hasSubscribers(),
+            },
+        );
+        return createFlowFamily((...params: unknown[]) => factory(params), factory);
+    }
+
     if (hasGetterParam(getter)) {
         // Create a memoized factory for parameterized computed flows
-        return memoize(
+        const factory = memoize(
             (param: Param) => {
-                return new ComputedFlow<Data>((ctx) => {
-                    return getter(ctx, param);
-                }, options);
+                const flow = new ComputedFlow<Data>(
+                    (ctx) => {
+                        return getter(ctx, param);
+                    },
+                    withFamilyMemberName(options, [param]),
+                );
+                setFlowParam(flow, param);
+                return flow;
             },
             {
                 equals: options?.paramEquals,
+                key: options?.paramKey,
+                cache: options?.cache,
+                isSubscribed: (flow) => flow.hasSubscribers(),
             },
         );
+        return createFlowFamily((param: Param) => factory(param), factory);
     }
 
     // Create a single computed flow for non-parameterized getters
@@ -174,3 +346,23 @@ function hasGetterParam<Data, Param>(
 ): getter is ComputedFlowGetterWithParam<Data, Param> {
     return getter.length > 1;
 }
+
+/**
+ * Type guard to determine if a getter function accepts multiple parameters.
+ *
+ * Parameters with default values and rest parameters are not counted,
+ * the same way as in {@link hasGetterParam}.
+ *
+ * @typeParam Data - The type of value returned by the computation
+ * @typeParam Param - The type of parameter passed to the computation
+ * @param getter - The getter function to check
+ * @returns `true` if the getter accepts more than one parameter besides the context, `false` otherwise
+ */
+function hasGetterParams<Data, Param>(
+    getter:
+        | ComputedFlowGetter<Data>
+        | ComputedFlowGetterWithParam<Data, Param>
+        | ComputedFlowGetterWithParams<Data, unknown[]>,
+): getter is ComputedFlowGetterWithParams<Data, unknown[]> {
+    return getter.length > 2;
+}
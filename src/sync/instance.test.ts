@@ -4,6 +4,9 @@ import { validateFlowImplementation } from "@tsip/types/tests";
 import { describe, it, expect, vi, expectTypeOf, beforeEach, afterEach } from "vitest";
 import { ComputedFlow } from "./instance";
 import type { FlowComputationContext } from "./computation";
+import { CircularDependencyError } from "../lib/circularDependencyError";
+import { inspect } from "../lib/inspect";
+import { batch } from "../lib/batch";
 
 describe("ComputedFlow", () => {
     beforeEach(() => {
@@ -1776,6 +1779,861 @@ describe("ComputedFlow", () => {
             a.emit("aa");
             expect(spy).not.toHaveBeenCalled();
         });
+
+        describe("with listeners", () => {
+            it("should notify once with consistent value (diamond graph)", () => {
+                //     X
+                //   /   \
+                //  A     B
+                //   \   /
+                //     C
+
+                const $x = createFlow("a");
+                const $a = new ComputedFlow((ctx) => ctx.watch($x));
+                const $b = new ComputedFlow((ctx) => ctx.watch($x));
+                const $c = new ComputedFlow((ctx) => ctx.watch($a) + " " + ctx.watch($b));
+
+                const values: string[] = [];
+                $c.subscribe(() => {
+                    values.push($c.getSnapshot());
+                });
+
+                $x.emit("aa");
+                expect(values).toEqual(["aa aa"]);
+
+                $x.emit("aaa");
+                expect(values).toEqual(["aa aa", "aaa aaa"]);
+            });
+
+            it("should notify once with consistent value (diamond graph + tail)", () => {
+                //     X
+                //   /   \
+                //  A     B
+                //   \   /
+                //     C
+                //     |
+                //     D
+
+                const $x = createFlow("a");
+                const $a = new ComputedFlow((ctx) => ctx.watch($x));
+                const $b = new ComputedFlow((ctx) => ctx.watch($x));
+                const $c = new ComputedFlow((ctx) => ctx.watch($a) + " " + ctx.watch($b));
+                const $d = new ComputedFlow((ctx) => ctx.watch($c));
+
+                const values: string[] = [];
+                $d.subscribe(() => {
+                    values.push($d.getSnapshot());
+                });
+
+                $x.emit("aa");
+                expect(values).toEqual(["aa aa"]);
+            });
+
+            it("should notify once with consistent value (jagged diamond graph)", () => {
+                //     X
+                //   /   \
+                //  A     B
+                //  |     |
+                //  |     C
+                //   \   /
+                //     D
+
+                const $x = createFlow("a");
+                const $a = new ComputedFlow((ctx) => ctx.watch($x));
+                const $b = new ComputedFlow((ctx) => ctx.watch($x));
+                const $c = new ComputedFlow((ctx) => ctx.watch($b));
+                const $d = new ComputedFlow((ctx) => ctx.watch($a) + " " + ctx.watch($c));
+
+                const values: string[] = [];
+                $d.subscribe(() => {
+                    values.push($d.getSnapshot());
+                });
+
+                $x.emit("b");
+                expect(values).toEqual(["b b"]);
+            });
+
+            it("should notify listeners in topological order", () => {
+                //     X
+                //   /   \
+                //  A     B
+                //   \   /
+                //     C
+
+                const $x = createFlow("a");
+                const $a = new ComputedFlow((ctx) => ctx.watch($x));
+                const $b = new ComputedFlow((ctx) => ctx.watch($x));
+                const $c = new ComputedFlow((ctx) => ctx.watch($a) + " " + ctx.watch($b));
+
+                const seq: string[] = [];
+                $c.subscribe(() => seq.push("c"));
+                $b.subscribe(() => seq.push("b"));
+                $a.subscribe(() => seq.push("a"));
+
+                $x.emit("aa");
+                expect(seq).toHaveLength(3);
+                expect(seq.at(-1)).toBe("c");
+            });
+
+            it("should notify listeners of a flow subscribed to a computed flow and its source", () => {
+                // X->A->B, X->B
+
+                const $x = createFlow(1);
+                const $a = new ComputedFlow((ctx) => ctx.watch($x) * 10);
+                const $b = new ComputedFlow((ctx) => ctx.watch($x) + ctx.watch($a));
+
+                const values: number[] = [];
+                $b.subscribe(() => {
+                    values.push($b.getSnapshot());
+                });
+
+                $x.emit(2);
+                expect(values).toEqual([22]);
+            });
+        });
+    });
+
+    describe("watch with selector", () => {
+        it("should infer the type of the selected slice", () => {
+            const source = createFlow({ name: "John", age: 30 });
+            new ComputedFlow(({ watch }) => {
+                expectTypeOf(watch(source, (user) => user.name)).toEqualTypeOf<string>();
+                return null;
+            });
+        });
+
+        it("should return the selected slice", () => {
+            const source = createFlow({ name: "John", age: 30 });
+            const flow = new ComputedFlow(({ watch }) => watch(source, (user) => user.name).toUpperCase());
+            expect(flow.getSnapshot()).toBe("JOHN");
+
+            source.emit({ name: "Jane", age: 30 });
+            expect(flow.getSnapshot()).toBe("JANE");
+        });
+
+        it("should not recompute when other parts of the value change", () => {
+            const source = createFlow({ name: "John", age: 30 });
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source, (user) => user.name));
+            const flow = new ComputedFlow(getter);
+            flow.subscribe(vi.fn());
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit({ name: "John", age: 31 });
+            expect(flow.getSnapshot()).toBe("John");
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit({ name: "Jane", age: 31 });
+            expect(flow.getSnapshot()).toBe("Jane");
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should not recompute without subscribers when the slice is unchanged", () => {
+            const source = createFlow({ name: "John", age: 30 });
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source, (user) => user.name));
+            const flow = new ComputedFlow(getter);
+            flow.getSnapshot();
+
+            source.emit({ name: "John", age: 31 });
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+
+        it("should compare slices with the custom equality function", () => {
+            const source = createFlow({ tags: ["a", "b"], count: 0 });
+            const getter = vi.fn(({ watch }: FlowComputationContext) => {
+                return watch(
+                    source,
+                    (value) => value.tags,
+                    (a, b) => a.join() === b.join(),
+                );
+            });
+            const flow = new ComputedFlow(getter);
+            flow.subscribe(vi.fn());
+
+            source.emit({ tags: ["a", "b"], count: 1 });
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit({ tags: ["a", "c"], count: 1 });
+            expect(flow.getSnapshot()).toEqual(["a", "c"]);
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should recompute when any of the slices changes", () => {
+            const source = createFlow({ name: "John", age: 30, city: "Paris" });
+            const getter = vi.fn(({ watch }: FlowComputationContext) => {
+                return `${watch(source, (user) => user.name)} (${watch(source, (user) => user.age).toString()})`;
+            });
+            const flow = new ComputedFlow(getter);
+            flow.subscribe(vi.fn());
+
+            source.emit({ name: "John", age: 30, city: "London" });
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit({ name: "John", age: 31, city: "London" });
+            expect(flow.getSnapshot()).toBe("John (31)");
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should recompute on any change if the flow is also read as a whole", () => {
+            const source = createFlow({ name: "John", age: 30 });
+            const getter = vi.fn(({ watch }: FlowComputationContext) => {
+                watch(source);
+                return watch(source, (user) => user.name);
+            });
+            const flow = new ComputedFlow(getter);
+            flow.subscribe(vi.fn());
+
+            source.emit({ name: "John", age: 31 });
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should propagate errors of the flow and the selector", () => {
+            const source = createFlow({ name: "John" });
+            const failing = new ComputedFlow<{ name: string }>(() => {
+                throw new Error("Source error");
+            });
+
+            const flow1 = new ComputedFlow(({ watch }) => watch(failing, (user) => user.name));
+            expect(() => flow1.getSnapshot()).toThrow("Source error");
+
+            const flow2 = new ComputedFlow(({ watch }) =>
+                watch(source, () => {
+                    throw new Error("Selector error");
+                }),
+            );
+            expect(() => flow2.getSnapshot()).toThrow("Selector error");
+        });
+
+        it("should subscribe to the source once", () => {
+            const source = createFlow({ name: "John", age: 30 });
+            const flow = new ComputedFlow(({ watch }) => {
+                return `${watch(source, (user) => user.name)} ${watch(source, (user) => user.age).toString()}`;
+            });
+
+            flow.subscribe(vi.fn());
+            expect(getSubscriptionsCount(source)).toBe(1);
+        });
+    });
+
+    describe("untracked reads", () => {
+        it("should read the value with peek without tracking the flow", () => {
+            const source = createFlow(1);
+            const config = createFlow("debug");
+            const getter = vi.fn(
+                ({ watch, peek }: FlowComputationContext) => `${peek(config)}: ${watch(source).toString()}`,
+            );
+            const flow = new ComputedFlow(getter);
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toBe("debug: 1");
+
+            config.emit("info");
+            expect(flow.getSnapshot()).toBe("debug: 1");
+            expect(getter).toHaveBeenCalledTimes(1);
+            expect(getSubscriptionsCount(config)).toBe(0);
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe("info: 2");
+        });
+
+        it("should peek computed flows", () => {
+            const source = createFlow(1);
+            const doubled = new ComputedFlow(({ watch }) => watch(source) * 2);
+            const getter = vi.fn(({ peek }: FlowComputationContext) => peek(doubled));
+            const flow = new ComputedFlow(getter);
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toBe(2);
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(2);
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not track flows read inside untracked", () => {
+            const a = createFlow(1);
+            const b = createFlow(2);
+            const doubled = new ComputedFlow(({ watch }) => watch(a) * 2);
+            const getter = vi.fn(({ watch, untracked }: FlowComputationContext) => {
+                return untracked(() => watch(a) + doubled.getSnapshot() + watch(b, (value) => value));
+            });
+            const flow = new ComputedFlow(getter);
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toBe(5);
+
+            a.emit(2);
+            b.emit(3);
+            expect(flow.getSnapshot()).toBe(5);
+            expect(getter).toHaveBeenCalledTimes(1);
+            expect(inspect(flow)?.sources).toEqual([]);
+        });
+
+        it("should propagate errors of peeked flows", () => {
+            const failing = new ComputedFlow<number>(() => {
+                throw new Error("Source error");
+            });
+            const flow = new ComputedFlow(({ peek }) => peek(failing));
+            expect(() => flow.getSnapshot()).toThrow("Source error");
+        });
+    });
+
+    describe("cleanup", () => {
+        it("should call cleanup functions when the computation is replaced", () => {
+            const source = createFlow(1);
+            const cleanups: number[] = [];
+            const flow = new ComputedFlow(({ watch, onCleanup }) => {
+                const value = watch(source);
+                onCleanup(() => cleanups.push(value));
+                return value;
+            });
+
+            flow.getSnapshot();
+            expect(cleanups).toEqual([]);
+
+            source.emit(2);
+            flow.getSnapshot();
+            expect(cleanups).toEqual([1]);
+
+            flow.subscribe(vi.fn());
+            source.emit(3);
+            flow.getSnapshot();
+            expect(cleanups).toEqual([1, 2]);
+        });
+
+        it("should not call cleanup functions if the value is reused", () => {
+            const source = createFlow(1);
+            const cleanup = vi.fn();
+            const flow = new ComputedFlow(({ watch, onCleanup }) => {
+                onCleanup(cleanup);
+                return watch(source);
+            });
+            flow.subscribe(vi.fn());
+            flow.getSnapshot();
+
+            source.emit(1);
+            flow.getSnapshot();
+            expect(cleanup).not.toHaveBeenCalled();
+        });
+
+        it("should call cleanup functions when the last subscriber is removed", () => {
+            const source = createFlow(1);
+            const cleanup = vi.fn();
+            const flow = new ComputedFlow(({ watch, onCleanup }) => {
+                onCleanup(cleanup);
+                return watch(source);
+            });
+
+            const subscription1 = flow.subscribe(vi.fn());
+            const subscription2 = flow.subscribe(vi.fn());
+
+            subscription1.unsubscribe();
+            expect(cleanup).not.toHaveBeenCalled();
+
+            subscription2.unsubscribe();
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it("should not serve a value released when the last subscriber is removed", () => {
+            const live = new Set<number>();
+            let nextId = 0;
+            const flow = new ComputedFlow(({ onCleanup }) => {
+                const id = ++nextId;
+                live.add(id);
+                onCleanup(() => live.delete(id));
+                return id;
+            });
+
+            const subscription = flow.subscribe(vi.fn());
+            expect(live.has(flow.getSnapshot())).toBe(true);
+
+            subscription.unsubscribe();
+            const value = flow.getSnapshot();
+            expect(value).toBe(2);
+            expect(live.has(value)).toBe(true);
+
+            flow.subscribe(vi.fn());
+            expect(live.has(flow.getSnapshot())).toBe(true);
+        });
+
+        it("should recompute a value released when the last subscriber is removed on resubscribe", () => {
+            const live = new Set<number>();
+            let nextId = 0;
+            const flow = new ComputedFlow(({ onCleanup }) => {
+                const id = ++nextId;
+                live.add(id);
+                onCleanup(() => live.delete(id));
+                return id;
+            });
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            expect(live).toEqual(new Set());
+
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toBe(2);
+            expect(live).toEqual(new Set([2]));
+        });
+
+        it("should reuse the value without cleanup functions when the flow is subscribed again", () => {
+            const source = createFlow(1);
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source));
+            const flow = new ComputedFlow(getter);
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toBe(1);
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+
+        it("should keep resources of the value reused with custom equality", () => {
+            const source = createFlow(1);
+            const live = new Set<number>();
+            let nextId = 0;
+            const flow = new ComputedFlow(
+                ({ watch, onCleanup }) => {
+                    const id = ++nextId;
+                    live.add(id);
+                    onCleanup(() => live.delete(id));
+                    return { id, parity: watch(source) % 2 };
+                },
+                { equals: (a, b) => a.parity === b.parity },
+            );
+            flow.subscribe(vi.fn());
+            const value = flow.getSnapshot();
+
+            source.emit(3);
+            expect(flow.getSnapshot()).toBe(value);
+            expect(live).toEqual(new Set([value.id]));
+
+            source.emit(4);
+            expect(flow.getSnapshot().id).toBe(3);
+            expect(live).toEqual(new Set([3]));
+        });
+
+        it("should call cleanup functions of a skipped computation", () => {
+            const source = createFlow(1);
+            const cleanups: number[] = [];
+            const flow = new ComputedFlow(({ watch, skip, onCleanup }) => {
+                const value = watch(source);
+                onCleanup(() => cleanups.push(value));
+                if (value === 2) {
+                    skip();
+                }
+                return value;
+            });
+            flow.subscribe(vi.fn());
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(1);
+            expect(cleanups).toEqual([2]);
+        });
+
+        it("should log errors of cleanup functions", () => {
+            const source = createFlow(1);
+            const cleanup = vi.fn();
+            const flow = new ComputedFlow(({ watch, onCleanup }) => {
+                onCleanup(() => {
+                    throw new Error("Cleanup error");
+                });
+                onCleanup(cleanup);
+                return watch(source);
+            });
+            flow.getSnapshot();
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(2);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+
+            expect(console.error).toHaveBeenCalledTimes(1);
+            const error = vi.mocked(console.error).mock.calls[0]?.[0] as Error;
+            expect(error.message).toBe("Failed to run cleanup function");
+            expect(error.cause).toEqual(new Error("Cleanup error"));
+            vi.mocked(console.error).mockClear();
+        });
+    });
+
+    describe("keepAlive", () => {
+        afterEach(() => {
+            vi.useRealTimers();
+        });
+
+        it("should stop tracking sources immediately by default", () => {
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source));
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            expect(getSubscriptionsCount(source)).toBe(0);
+        });
+
+        it("should keep tracking sources within the grace period", () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const cleanup = vi.fn();
+            const getter = vi.fn(({ watch, onCleanup }: FlowComputationContext) => {
+                onCleanup(cleanup);
+                return watch(source);
+            });
+            const flow = new ComputedFlow(getter, { keepAlive: 1000 });
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            expect(getSubscriptionsCount(source)).toBe(1);
+
+            vi.advanceTimersByTime(999);
+            expect(getSubscriptionsCount(source)).toBe(1);
+            expect(cleanup).not.toHaveBeenCalled();
+
+            vi.advanceTimersByTime(1);
+            expect(getSubscriptionsCount(source)).toBe(0);
+            expect(cleanup).toHaveBeenCalledTimes(1);
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+
+        it("should ignore repeated unsubscribe calls", () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source), { keepAlive: 30 });
+
+            const subscription = flow.subscribe(vi.fn());
+            subscription.unsubscribe();
+            subscription.unsubscribe();
+
+            const listener = vi.fn(() => {
+                flow.getSnapshot();
+            });
+            flow.subscribe(listener);
+            vi.advanceTimersByTime(60);
+            expect(getSubscriptionsCount(source)).toBe(1);
+
+            source.emit(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe(2);
+        });
+
+        it("should reuse the value when resubscribed within the grace period", () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source));
+            const flow = new ComputedFlow(getter, { keepAlive: 1000 });
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            vi.advanceTimersByTime(500);
+
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            vi.advanceTimersByTime(1000);
+            expect(getSubscriptionsCount(source)).toBe(1);
+            expect(flow.getSnapshot()).toBe(1);
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe(2);
+        });
+
+        it("should keep tracking sources forever with keepAlive: true", () => {
+            vi.useFakeTimers();
+            const source = createFlow(1);
+            const flow = new ComputedFlow(({ watch }) => watch(source), { keepAlive: true });
+
+            flow.subscribe(vi.fn()).unsubscribe();
+            vi.advanceTimersByTime(Number.MAX_SAFE_INTEGER);
+            expect(getSubscriptionsCount(source)).toBe(1);
+        });
+    });
+
+    describe("eager", () => {
+        it("should recompute when sources change while subscribed", () => {
+            const source = createFlow(1);
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source) * 2);
+            const flow = new ComputedFlow(getter, { eager: true });
+            flow.subscribe(vi.fn());
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit(2);
+            expect(getter).toHaveBeenCalledTimes(2);
+            expect(flow.getSnapshot()).toBe(4);
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should recompute before listeners are notified", () => {
+            const source = createFlow(1);
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source) * 2);
+            const flow = new ComputedFlow(getter, { eager: true });
+            const listener = vi.fn(() => {
+                expect(getter).toHaveBeenCalledTimes(2);
+            });
+            flow.subscribe(listener);
+
+            source.emit(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it("should recompute once per batch", () => {
+            const a = createFlow(1);
+            const b = createFlow(2);
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(a) + watch(b));
+            const flow = new ComputedFlow(getter, { eager: true });
+            flow.subscribe(vi.fn());
+
+            batch(() => {
+                a.emit(2);
+                b.emit(3);
+            });
+            expect(getter).toHaveBeenCalledTimes(2);
+            expect(flow.getSnapshot()).toBe(5);
+        });
+
+        it("should be lazy without subscribers", () => {
+            const source = createFlow(1);
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source) * 2);
+            const flow = new ComputedFlow(getter, { eager: true });
+            flow.subscribe(vi.fn()).unsubscribe();
+
+            source.emit(2);
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+
+        it("should store errors of eager computations", () => {
+            const source = createFlow(1);
+            const flow = new ComputedFlow(
+                ({ watch }) => {
+                    if (watch(source) === 2) {
+                        throw new Error("Compute error");
+                    }
+                    return watch(source);
+                },
+                { eager: true },
+            );
+            flow.subscribe(vi.fn());
+
+            source.emit(2);
+            expect(() => flow.getSnapshot()).toThrow("Compute error");
+        });
+    });
+
+    describe("invalidate", () => {
+        it("should recompute the flow on the next read", () => {
+            let multiplier = 2;
+            const source = createFlow(1);
+            const getter = vi.fn(({ watch }: FlowComputationContext) => watch(source) * multiplier);
+            const flow = new ComputedFlow(getter);
+            expect(flow.getSnapshot()).toBe(2);
+
+            multiplier = 3;
+            expect(flow.getSnapshot()).toBe(2);
+
+            flow.invalidate();
+            expect(getter).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe(3);
+            expect(flow.getSnapshot()).toBe(3);
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should notify subscribers", () => {
+            let value = 1;
+            const flow = new ComputedFlow(() => value);
+            const listener = vi.fn();
+            flow.subscribe(listener);
+
+            value = 2;
+            flow.invalidate();
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe(2);
+        });
+
+        it("should recompute dependent flows", () => {
+            let value = 1;
+            const flow = new ComputedFlow(() => value);
+            const dependent = new ComputedFlow(({ watch }) => watch(flow) * 10);
+            const listener = vi.fn();
+            dependent.subscribe(listener);
+            expect(dependent.getSnapshot()).toBe(10);
+
+            value = 2;
+            flow.invalidate();
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(dependent.getSnapshot()).toBe(20);
+        });
+    });
+
+    describe("implicit dependencies", () => {
+        it("should track computed flows read with getSnapshot inside getter", () => {
+            const source = createFlow(1);
+            const doubled = new ComputedFlow(({ watch }) => watch(source) * 2);
+            const flow = new ComputedFlow(() => doubled.getSnapshot() + 1);
+
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            expect(flow.getSnapshot()).toBe(3);
+
+            source.emit(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe(5);
+        });
+
+        it("should recompute without listeners when implicit dependency changes", () => {
+            const source = createFlow(1);
+            const doubled = new ComputedFlow(({ watch }) => watch(source) * 2);
+            const getter = vi.fn(() => doubled.getSnapshot() + 1);
+            const flow = new ComputedFlow(getter);
+
+            expect(flow.getSnapshot()).toBe(3);
+            expect(flow.getSnapshot()).toBe(3);
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(5);
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should track reads made by functions unaware of the context", () => {
+            const user = createFlow({ name: "John", age: 30 });
+            const userName = new ComputedFlow(({ watch }) => watch(user).name);
+            const selectGreeting = () => `Hello, ${userName.getSnapshot()}!`;
+            const flow = new ComputedFlow(() => selectGreeting());
+
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            expect(flow.getSnapshot()).toBe("Hello, John!");
+
+            user.emit({ name: "Jane", age: 30 });
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe("Hello, Jane!");
+        });
+
+        it("should not track sources of the nested flow as own dependencies", () => {
+            const source = createFlow(1);
+            const isOdd = new ComputedFlow(({ watch }) => watch(source) % 2 === 1);
+            const getter = vi.fn(() => (isOdd.getSnapshot() ? "odd" : "even"));
+            const flow = new ComputedFlow(getter);
+
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            expect(flow.getSnapshot()).toBe("odd");
+
+            source.emit(3);
+            expect(flow.getSnapshot()).toBe("odd");
+            expect(getter).toHaveBeenCalledTimes(1);
+
+            source.emit(4);
+            expect(flow.getSnapshot()).toBe("even");
+            expect(getter).toHaveBeenCalledTimes(2);
+        });
+
+        it("should track errors of implicit dependencies", () => {
+            const source = createFlow(1);
+            const checked = new ComputedFlow(({ watch }) => {
+                const value = watch(source);
+                if (value < 0) throw new Error("negative");
+                return value;
+            });
+            const flow = new ComputedFlow(() => {
+                try {
+                    return checked.getSnapshot();
+                } catch {
+                    return 0;
+                }
+            });
+
+            flow.subscribe(vi.fn());
+            expect(flow.getSnapshot()).toBe(1);
+
+            source.emit(-1);
+            expect(flow.getSnapshot()).toBe(0);
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(2);
+        });
+
+        it("should not track reads made outside of getters", () => {
+            const source = createFlow(1);
+            const other = new ComputedFlow(({ watch }) => watch(source) * 2);
+            const getter = vi.fn(() => 42);
+            const flow = new ComputedFlow(getter);
+
+            flow.subscribe(() => {
+                other.getSnapshot();
+            });
+            flow.getSnapshot();
+            other.getSnapshot();
+
+            source.emit(2);
+            flow.getSnapshot();
+            expect(getter).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("name", () => {
+        it("should expose the name on the instance", () => {
+            expect(new ComputedFlow(() => 1, { name: "counter" }).name).toBe("counter");
+            expect(new ComputedFlow(() => 1).name).toBeUndefined();
+        });
+
+        it("should wrap getter errors into an error with the name", () => {
+            const error = new Error("test");
+            const flow = new ComputedFlow(
+                () => {
+                    throw error;
+                },
+                { name: "failing" },
+            );
+
+            expect(() => flow.getSnapshot()).toThrow('Failed to compute flow "failing"');
+            try {
+                flow.getSnapshot();
+            } catch (err) {
+                expect((err as Error).cause).toBe(error);
+            }
+        });
+
+        it("should chain errors of named flows with cause", () => {
+            const error = new Error("test");
+            const inner = new ComputedFlow(
+                () => {
+                    throw error;
+                },
+                { name: "inner" },
+            );
+            const outer = new ComputedFlow(({ watch }) => watch(inner), { name: "outer" });
+
+            let thrown: unknown;
+            try {
+                outer.getSnapshot();
+            } catch (err) {
+                thrown = err;
+            }
+
+            expect(thrown).toMatchObject({
+                message: 'Failed to compute flow "outer"',
+                cause: {
+                    message: 'Failed to compute flow "inner"',
+                    cause: error,
+                },
+            });
+        });
+
+        it("should not wrap abort errors", () => {
+            const flow = new ComputedFlow(({ skip }) => skip(), { name: "skipped", initialValue: 1 });
+            expect(flow.getSnapshot()).toBe(1);
+        });
+
+        it("should log listener errors with the name", () => {
+            const error = new Error("Listener error");
+            const source = createFlow(0);
+            const flow = new ComputedFlow(({ watch }) => watch(source), { name: "logged" });
+            flow.subscribe(() => {
+                throw error;
+            });
+
+            source.emit(1);
+
+            expect(console.error).toHaveBeenCalledTimes(1);
+            const arg = vi.mocked(console.error).mock.calls[0]?.[0] as Error;
+            expect(arg.message).toBe('Failed to call listener of flow "logged"');
+            expect(arg.cause).toBe(error);
+
+            vi.mocked(console.error).mockClear();
+        });
     });
 
     describe("custom equality", () => {
@@ -1851,10 +2709,60 @@ describe("ComputedFlow", () => {
     });
 
     describe("cycles detection", () => {
-        // detects trivial cycles
-        // detects slightly larger cycles
-        // detects depending on self
-        it("");
+        it("should detect trivial cycles", () => {
+            const a: Flow<number> = new ComputedFlow(({ watch }) => watch(b) + 1, { name: "a" });
+            const b: Flow<number> = new ComputedFlow(({ watch }) => watch(a) + 1, { name: "b" });
+
+            expect(() => a.getSnapshot()).toThrow(CircularDependencyError);
+            expect(() => a.getSnapshot()).toThrow("Circular dependency detected: a -> b -> a");
+        });
+
+        it("should detect slightly larger cycles", () => {
+            const a: Flow<number> = new ComputedFlow(({ watch }) => watch(b) + 1);
+            const b: Flow<number> = new ComputedFlow(({ watch }) => watch(c) + 1);
+            const c: Flow<number> = new ComputedFlow(({ watch }) => watch(a) + 1);
+
+            let error: unknown;
+            try {
+                a.getSnapshot();
+            } catch (err) {
+                error = err;
+            }
+
+            expect(error).toBeInstanceOf(CircularDependencyError);
+            expect((error as CircularDependencyError).path).toEqual([a, b, c, a]);
+            expect((error as CircularDependencyError).message).toBe(
+                "Circular dependency detected: <anonymous> -> <anonymous> -> <anonymous> -> <anonymous>",
+            );
+        });
+
+        it("should detect depending on self", () => {
+            const flow: Flow<number> = new ComputedFlow(({ watch }) => watch(flow) + 1, { name: "self" });
+
+            expect(() => flow.getSnapshot()).toThrow("Circular dependency detected: self -> self");
+        });
+
+        it("should detect cycles created by a source change", () => {
+            const source = createFlow(false);
+            const a: Flow<number> = new ComputedFlow(({ watch }) => (watch(source) ? watch(b) : 0));
+            const b: Flow<number> = new ComputedFlow(({ watch }) => watch(a) + 1);
+
+            const listener = vi.fn();
+            b.subscribe(listener);
+            expect(b.getSnapshot()).toBe(1);
+
+            source.emit(true);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(() => b.getSnapshot()).toThrow(CircularDependencyError);
+        });
+
+        it("should detect cycles on subscribe", () => {
+            const a: Flow<number> = new ComputedFlow(({ watch }) => watch(b) + 1);
+            const b: Flow<number> = new ComputedFlow(({ watch }) => watch(a) + 1);
+
+            a.subscribe(vi.fn());
+            expect(() => a.getSnapshot()).toThrow(CircularDependencyError);
+        });
     });
 
     describe("Flow interface", () => {
@@ -2,6 +2,7 @@ import type { Flow } from "@tsip/types";
 import { FlowComputation, type FlowComputationContext } from "./computation";
 import { ComputedFlowBase } from "../base/instance";
 import { isAbortError } from "../lib/isAbortError";
+import { tracker } from "../lib/tracker";
 
 /**
  * A function that computes the value for a ComputedFlow.
@@ -15,12 +16,67 @@ import { isAbortError } from "../lib/isAbortError";
  */
 export type ComputedFlowGetter<T> = (ctx: FlowComputationContext) => T;
 
+/**
+ * A computed flow that can be recomputed on demand.
+ *
+ * @typeParam T - The type of value this flow produces
+ */
+export interface InvalidatableFlow<T> extends Flow<T> {
+    /**
+     * Marks the flow as stale, so that it's recomputed on the next read even if its sources haven't changed.
+     * Subscribers are notified about the change.
+     */
+    invalidate(): void;
+}
+
 /**
  * Configuration options for creating a ComputedFlow.
  *
  * @typeParam T - The type of the computed value
  */
 export interface ComputedFlowOptions<T> {
+    /**
+     * The debug label of the flow.
+     *
+     * It's used in logged errors and in errors thrown by the getter, which are wrapped
+     * into an error with the label and the original error as the `cause`.
+     */
+    name?: string;
+
+    /**
+     * How long the flow keeps tracking its sources after the last subscriber is removed.
+     *
+     * A number is the grace period in milliseconds, `true` keeps the flow active forever,
+     * and `false` or `0` stops tracking immediately.
+     *
+     * @default false
+     */
+    keepAlive?: number | boolean;
+
+    /**
+     * Whether the flow recomputes as soon as its sources change while it's subscribed,
+     * instead of waiting for the next read.
+     *
+     * @default false
+     */
+    eager?: boolean;
+
+    /**
+     * Called when a listener of the flow throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the listener
+     * @param flow - The flow whose listener has thrown
+     */
+    onListenerError?: (error: unknown, flow: Flow<unknown>) => void;
+
+    /**
+     * Called when the getter throws, instead of the handler set with `configure`.
+     *
+     * @param error - The error thrown by the getter
+     * @param flow - The flow whose getter has thrown
+     */
+    onComputationError?: (error: unknown, flow: Flow<unknown>) => void;
+
     /**
      * The initial value to use when the computation fails with an abort error
      * and no cached value is available.
@@ -65,7 +121,7 @@ export interface ComputedFlowOptions<T> {
  * console.log(doubled.getSnapshot()); // 10
  * ```
  */
-export class ComputedFlow<T> extends ComputedFlowBase<T, FlowComputation<T>> implements Flow<T> {
+export class ComputedFlow<T> extends ComputedFlowBase<T, FlowComputation<T>> implements InvalidatableFlow<T> {
     /**
      * The function that computes this flow's value.
      */
@@ -83,11 +139,28 @@ export class ComputedFlow<T> extends ComputedFlowBase<T, FlowComputation<T>> imp
      * @param options - Optional configuration for this computed flow
      */
     public constructor(getter: ComputedFlowGetter<T>, options?: ComputedFlowOptions<T>) {
-        super();
+        super(options);
         this.getter = getter;
         this.options = options;
     }
 
+    /**
+     * Marks the flow as stale, so that it's recomputed on the next read even if its sources haven't changed.
+     *
+     * Subscribers are notified about the change, like when a source changes. It's useful when the value
+     * depends on something outside of the flow graph, e.g. the current time or a mutable object.
+     *
+     * @example
+     * ```typescript
+     * const settings = new ComputedFlow(() => JSON.parse(localStorage.getItem("settings") ?? "{}"));
+     *
+     * window.addEventListener("storage", () => settings.invalidate());
+     * ```
+     */
+    public invalidate(): void {
+        this.markStale();
+    }
+
     /**
      * Performs the actual computation of this flow's value.
      *
@@ -95,15 +168,19 @@ export class ComputedFlow<T> extends ComputedFlowBase<T, FlowComputation<T>> imp
      */
     protected compute(): FlowComputation<T> {
         const computation = new FlowComputation<T>();
+        let failure: { error: unknown } | null = null;
         try {
-            let value = this.getter(computation.getContext());
+            let value = tracker.run(computation, () => this.getter(computation.getContext()));
 
             if (
                 this.options?.equals &&
                 this.cachedComputation &&
+                !this.cachedComputation.isCleanedUp() &&
                 this.options.equals(value, this.cachedComputation.getValue())
             ) {
                 value = this.cachedComputation.getValue();
+                // The previous value is still served, so its resources are kept instead of the new ones
+                computation.reuseCleanups(this.cachedComputation);
             }
 
             computation.setValue(value);
@@ -111,6 +188,7 @@ export class ComputedFlow<T> extends ComputedFlowBase<T, FlowComputation<T>> imp
             if (isAbortError(err)) {
                 // If computation was aborted, try to use the cached value first
                 if (this.cachedComputation) {
+                    computation.cleanup();
                     return this.cachedComputation;
                 }
 
@@ -122,12 +200,22 @@ export class ComputedFlow<T> extends ComputedFlowBase<T, FlowComputation<T>> imp
                 }
             } else {
                 // For non-abort errors, always set error state
-                computation.setError(err);
+                const error = this.labelError(err);
+                computation.setError(error);
+
+                // Errors rethrown from sources are reported by the flows whose getters raised them
+                if (!computation.isSourceError(err)) {
+                    failure = { error };
+                }
             }
         } finally {
             computation.finalize();
         }
         this.onComputationFinished(computation);
+
+        if (failure) {
+            this.reportComputationError(failure.error);
+        }
         return computation;
     }
 }
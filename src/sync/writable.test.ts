@@ -0,0 +1,147 @@
+import { createFlow } from "@tsip/flow";
+import type { MutableFlow } from "@tsip/types";
+import { validateFlowImplementation } from "@tsip/types/tests";
+import { describe, it, expect, vi, expectTypeOf, beforeEach, afterEach } from "vitest";
+import { writableComputedFlow } from "./writable";
+import { ComputedFlow } from "./instance";
+import type { FlowComputationContext } from "./computation";
+
+describe("writableComputedFlow", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "error").mockImplementation(() => {
+            // noop
+        });
+    });
+
+    afterEach(() => {
+        expect(console.error).not.toHaveBeenCalled();
+        vi.mocked(console.error).mockClear();
+    });
+
+    function createFullName() {
+        const firstName = createFlow("John");
+        const lastName = createFlow("Doe");
+        const getter = vi.fn(({ watch }: FlowComputationContext) => {
+            return `${watch(firstName)} ${watch(lastName)}`;
+        });
+        const fullName = writableComputedFlow({
+            get: getter,
+            set: (value) => {
+                const [first = "", last = ""] = value.split(" ");
+                firstName.emit(first);
+                lastName.emit(last);
+            },
+        });
+        return { firstName, lastName, fullName, getter };
+    }
+
+    it("should infer the type of the flow", () => {
+        const { fullName } = createFullName();
+        expectTypeOf(fullName).toEqualTypeOf<MutableFlow<string>>();
+    });
+
+    it("should compute the value from sources", () => {
+        const { firstName, fullName } = createFullName();
+        expect(fullName.getSnapshot()).toBe("John Doe");
+
+        firstName.emit("Jane");
+        expect(fullName.getSnapshot()).toBe("Jane Doe");
+    });
+
+    it("should write emitted values into sources", () => {
+        const { firstName, lastName, fullName } = createFullName();
+
+        fullName.emit("Jane Smith");
+        expect(firstName.getSnapshot()).toBe("Jane");
+        expect(lastName.getSnapshot()).toBe("Smith");
+        expect(fullName.getSnapshot()).toBe("Jane Smith");
+    });
+
+    it("should notify subscribers and recompute once per emit", () => {
+        const { fullName, getter } = createFullName();
+        const dependent = new ComputedFlow(({ watch }) => watch(fullName).length);
+
+        const values: string[] = [];
+        fullName.subscribe(() => {
+            values.push(fullName.getSnapshot());
+        });
+        const dependentListener = vi.fn();
+        dependent.subscribe(dependentListener);
+        getter.mockClear();
+
+        fullName.emit("Jane Smith");
+
+        expect(values).toEqual(["Jane Smith"]);
+        expect(getter).toHaveBeenCalledTimes(1);
+        expect(dependentListener).toHaveBeenCalledTimes(1);
+        expect(dependent.getSnapshot()).toBe(10);
+    });
+
+    it("should return a read-only view of the flow", () => {
+        const { fullName } = createFullName();
+        const readonlyFlow = fullName.asFlow();
+        expect(readonlyFlow).not.toHaveProperty("emit");
+        expect(fullName.asFlow()).toBe(readonlyFlow);
+
+        const listener = vi.fn();
+        readonlyFlow.subscribe(listener);
+        fullName.emit("Jane Smith");
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(readonlyFlow.getSnapshot()).toBe("Jane Smith");
+    });
+
+    it("should not notify subscribers if the sources are not changed", () => {
+        const { fullName } = createFullName();
+        const listener = vi.fn();
+        fullName.subscribe(listener);
+
+        fullName.emit("John Doe");
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it("should log errors of listeners instead of throwing them", () => {
+        const { fullName } = createFullName();
+        fullName.subscribe(() => {
+            throw new Error("Listener error");
+        });
+
+        expect(() => {
+            fullName.emit("Jane Smith");
+        }).not.toThrow();
+        expect(fullName.getSnapshot()).toBe("Jane Smith");
+        expect(console.error).toHaveBeenCalledTimes(1);
+        vi.mocked(console.error).mockClear();
+    });
+
+    describe("Flow interface", () => {
+        afterEach(() => {
+            vi.mocked(console.error).mockClear();
+        });
+
+        validateFlowImplementation({
+            testRunner: { describe, it },
+            createFlow: () => {
+                let i = 0;
+                const source = createFlow({ value: i });
+                const flow = writableComputedFlow({
+                    get: ({ watch }) => watch(source),
+                    set: (value) => {
+                        source.emit(value);
+                    },
+                });
+                return {
+                    flow,
+                    emitNext() {
+                        const value = { value: ++i };
+                        flow.emit(value);
+
+                        // compute the value
+                        flow.getSnapshot();
+
+                        return value;
+                    },
+                };
+            },
+        });
+    });
+});
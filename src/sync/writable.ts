@@ -0,0 +1,128 @@
+import type { Flow, MutableFlow } from "@tsip/types";
+import { ComputedFlow, type ComputedFlowGetter, type ComputedFlowOptions } from "./instance";
+import { batch } from "../lib/batch";
+
+/**
+ * Accessors of a writable computed flow.
+ *
+ * @typeParam T - The type of value of the flow
+ */
+export interface WritableComputedFlowAccessors<T> {
+    /**
+     * Computes the value of the flow, the same way as a getter of a computed flow.
+     */
+    get: ComputedFlowGetter<T>;
+
+    /**
+     * Writes an emitted value back into the source flows.
+     *
+     * Emits made by this function are batched, so the flow and its dependents recompute once.
+     *
+     * @param value - The value emitted into the flow
+     */
+    set: (value: T) => void;
+}
+
+/**
+ * A computed flow that can be written to. Emitted values are passed to the `set` accessor,
+ * which writes them back into the source flows.
+ *
+ * @typeParam T - The type of value this flow computes and emits
+ *
+ * @example
+ * ```typescript
+ * const celsius = createFlow(0);
+ * const fahrenheit = new WritableComputedFlow({
+ *   get: (ctx) => ctx.watch(celsius) * 1.8 + 32,
+ *   set: (value) => celsius.emit((value - 32) / 1.8),
+ * });
+ *
+ * fahrenheit.emit(212);
+ * console.log(celsius.getSnapshot()); // 100
+ * ```
+ */
+export class WritableComputedFlow<T> extends ComputedFlow<T> implements MutableFlow<T> {
+    /**
+     * The function that writes emitted values into the source flows.
+     */
+    private setter: (value: T) => void;
+
+    /**
+     * The read-only view of the flow returned from {@link asFlow}, created on the first call.
+     */
+    private readonlyFlow: Flow<T> | null = null;
+
+    /**
+     * Creates a new WritableComputedFlow instance.
+     *
+     * @param accessors - The functions that compute the value and write emitted values back
+     * @param options - Optional configuration for this computed flow
+     */
+    public constructor(accessors: WritableComputedFlowAccessors<T>, options?: ComputedFlowOptions<T>) {
+        super(accessors.get, options);
+        this.setter = accessors.set;
+    }
+
+    /**
+     * Emits a new value into the flow by passing it to the `set` accessor.
+     *
+     * Source flows updated by the accessor notify their dependents once, after the accessor returns.
+     *
+     * @param value - The value to emit
+     */
+    public emit(value: T): void {
+        batch(() => {
+            this.setter(value);
+        });
+    }
+
+    /**
+     * Returns a read-only view of the flow, which can be read and subscribed to, but not written to.
+     *
+     * @returns A flow that delegates reads and subscriptions to this flow
+     */
+    public asFlow(): Flow<T> {
+        this.readonlyFlow ??= {
+            subscribe: (listener) => this.subscribe(listener),
+            getSnapshot: () => this.getSnapshot(),
+        };
+        return this.readonlyFlow;
+    }
+}
+
+/**
+ * Creates a computed flow that can be written to.
+ *
+ * The value is computed by the `get` accessor, and values emitted into the flow are passed
+ * to the `set` accessor, which writes them back into the source flows. Emits of the source flows
+ * made by the accessor are batched, so the flow recomputes once.
+ *
+ * @typeParam T - The type of value of the flow
+ * @param accessors - The functions that compute the value and write emitted values back
+ * @param options - Optional configuration for the computed flow
+ * @returns A mutable computed flow
+ *
+ * @example
+ * ```typescript
+ * const firstName = createFlow("John");
+ * const lastName = createFlow("Doe");
+ *
+ * const fullName = writableComputedFlow({
+ *   get: ({ watch }) => `${watch(firstName)} ${watch(lastName)}`,
+ *   set: (value) => {
+ *     const [first = "", last = ""] = value.split(" ");
+ *     firstName.emit(first);
+ *     lastName.emit(last);
+ *   },
+ * });
+ *
+ * fullName.emit("Jane Smith");
+ * console.log(firstName.getSnapshot()); // "Jane"
+ * ```
+ */
+export function writableComputedFlow<T>(
+    accessors: WritableComputedFlowAccessors<T>,
+    options?: ComputedFlowOptions<T>,
+): MutableFlow<T> {
+    return new WritableComputedFlow(accessors, options);
+}
@@ -0,0 +1,197 @@
+import { createAsyncFlow, createFlow } from "@tsip/flow";
+import type { AsyncFlow, Flow } from "@tsip/types";
+import { describe, it, expect, vi, expectTypeOf, beforeEach, afterEach } from "vitest";
+import { debounce } from "./debounce";
+
+describe("debounce", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should infer correct return type", () => {
+        const flow = debounce(createFlow(42), 100);
+        expectTypeOf(flow).toEqualTypeOf<Flow<number>>();
+
+        const asyncFlow = debounce(createAsyncFlow({ status: "success", data: 42 }), 100);
+        expectTypeOf(asyncFlow).toEqualTypeOf<AsyncFlow<number>>();
+    });
+
+    describe("sync flows", () => {
+        it("should return the source value initially", () => {
+            const source = createFlow(1);
+            const flow = debounce(source, 100);
+
+            expect(flow.getSnapshot()).toBe(1);
+        });
+
+        it("should update after the source has been quiet for the interval", () => {
+            const source = createFlow(1);
+            const flow = debounce(source, 100);
+            const listener = vi.fn();
+            flow.subscribe(listener);
+
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(1);
+            expect(listener).not.toHaveBeenCalled();
+
+            vi.advanceTimersByTime(99);
+            expect(flow.getSnapshot()).toBe(1);
+            expect(listener).not.toHaveBeenCalled();
+
+            vi.advanceTimersByTime(1);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe(2);
+        });
+
+        it("should restart the timer on every source change", () => {
+            const source = createFlow(1);
+            const flow = debounce(source, 100);
+            const listener = vi.fn();
+            flow.subscribe(listener);
+
+            source.emit(2);
+            vi.advanceTimersByTime(50);
+            source.emit(3);
+            vi.advanceTimersByTime(50);
+            source.emit(4);
+            vi.advanceTimersByTime(50);
+            expect(listener).not.toHaveBeenCalled();
+            expect(flow.getSnapshot()).toBe(1);
+
+            vi.advanceTimersByTime(50);
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(flow.getSnapshot()).toBe(4);
+        });
+
+        it("should propagate source errors after the interval", () => {
+            const error = new Error("test");
+            const source = createFlow(1);
+            const errorSource = createFlow(false);
+            const flow = debounce(
+                {
+                    subscribe: (listener) => {
+                        const subscriptions = [source.subscribe(listener), errorSource.subscribe(listener)];
+                        return {
+                            unsubscribe: () => {
+                                subscriptions.forEach((subscription) => {
+                                    subscription.unsubscribe();
+                                });
+                            },
+                        };
+                    },
+                    getSnapshot: () => {
+                        if (errorSource.getSnapshot()) {
+                            throw error;
+                        }
+                        return source.getSnapshot();
+                    },
+                },
+                100,
+            );
+            flow.subscribe(vi.fn());
+
+            errorSource.emit(true);
+            expect(flow.getSnapshot()).toBe(1);
+
+            vi.advanceTimersByTime(100);
+            expect(() => flow.getSnapshot()).toThrow(error);
+        });
+
+        it("should return the source value without subscribers", () => {
+            const source = createFlow(1);
+            const flow = debounce(source, 100);
+
+            expect(flow.getSnapshot()).toBe(1);
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(2);
+        });
+
+        it("should cancel the pending timer when the last subscriber is removed", () => {
+            const source = createFlow(1);
+            const flow = debounce(source, 100);
+            const listener = vi.fn();
+            const subscription = flow.subscribe(listener);
+
+            source.emit(2);
+            expect(vi.getTimerCount()).toBe(1);
+
+            subscription.unsubscribe();
+            expect(vi.getTimerCount()).toBe(0);
+            expect(listener).not.toHaveBeenCalled();
+            expect(flow.getSnapshot()).toBe(2);
+        });
+    });
+
+    describe("async flows", () => {
+        it("should resolve the first value without delay", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = debounce(source, 100);
+
+            expect(flow.getSnapshot()).toEqual({ status: "pending" });
+
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+        });
+
+        it("should stay pending with previous data during the quiet period", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = debounce(source, 100);
+            const listener = vi.fn();
+            flow.subscribe(listener);
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+
+            source.emit({ status: "success", data: 2 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(50);
+            source.emit({ status: "success", data: 3 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(99);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(1);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 3 });
+        });
+
+        it("should propagate source errors", async () => {
+            const error = new Error("test");
+            const source = createAsyncFlow<number>({ status: "success", data: 1 });
+            const flow = debounce(source, 100);
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(0);
+
+            source.emit({ status: "error", error });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(flow.getSnapshot()).toEqual({ status: "error", error, data: 1 });
+        });
+
+        it("should cancel the pending timer when the last subscriber is removed", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = debounce(source, 100);
+            const subscription = flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(0);
+
+            source.emit({ status: "success", data: 2 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            expect(vi.getTimerCount()).toBe(1);
+
+            subscription.unsubscribe();
+            expect(vi.getTimerCount()).toBe(0);
+
+            // the next read starts a new computation
+            await vi.advanceTimersByTimeAsync(100);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(100);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+        });
+    });
+});
@@ -1,4 +1,83 @@
-import type { AsyncFlow, Flow } from "@tsip/types";
+import type { AsyncFlow, Flow, InferAsyncFlowValue } from "@tsip/types";
+import { delay } from "../lib/delay";
+import { isAsyncFlow } from "../lib/isAsyncFlow";
+import { TimedAsyncFlow, TimedFlowBase } from "./timedFlow";
 
-export declare function debounce<T>(flow: AsyncFlow<T>, interval: number): AsyncFlow<T>;
-export declare function debounce<T>(flow: Flow<T>, interval: number): Flow<T>;
+/**
+ * Creates a flow that updates only after the source flow has stopped changing for the specified interval.
+ *
+ * For synchronous flows, the resulting flow keeps the previous value until the source has been quiet
+ * for `interval` milliseconds. For async flows, the resulting flow switches to the `pending` state
+ * (keeping the previous data) on every source change and resolves once the source has been quiet
+ * for `interval` milliseconds.
+ *
+ * The first value is taken from the source without delay. Pending timers are cancelled
+ * when the last subscriber is removed.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ *
+ * @param flow - The source flow to debounce
+ * @param interval - The quiet period in milliseconds
+ *
+ * @returns A new flow that emits debounced values
+ *
+ * @example
+ * ```typescript
+ * const searchQuery = createFlow("");
+ * const debouncedQuery = debounce(searchQuery, 300);
+ *
+ * searchQuery.emit("a");
+ * searchQuery.emit("ab");
+ * searchQuery.emit("abc");
+ * // debouncedQuery is updated to "abc" once, 300ms after the last emit
+ * ```
+ */
+export function debounce<T extends AsyncFlow<unknown>>(flow: T, interval: number): AsyncFlow<InferAsyncFlowValue<T>>;
+export function debounce<T>(flow: Flow<T>, interval: number): Flow<T>;
+export function debounce<T>(flow: Flow<T> | AsyncFlow<T>, interval: number): Flow<T> | AsyncFlow<T> {
+    if (isAsyncFlow(flow)) {
+        return debounceAsync(flow, interval);
+    }
+    return new DebouncedFlow(flow, interval);
+}
+
+/**
+ * Creates a debounced async flow.
+ *
+ * @typeParam T - The type of values emitted by the source async flow
+ * @param flow - The source async flow to debounce
+ * @param interval - The quiet period in milliseconds
+ * @returns A new async flow that resolves after the source has been quiet for the interval
+ */
+function debounceAsync<T>(flow: AsyncFlow<T>, interval: number): AsyncFlow<T> {
+    let initialized = false;
+
+    return new TimedAsyncFlow<T>(async (ctx) => {
+        // Register the dependency before waiting, so every source change restarts the timer
+        ctx.watch(flow);
+
+        if (initialized) {
+            // A newer computation aborts the signal, which cancels the timer
+            await delay(interval, ctx.signal);
+        }
+        initialized = true;
+
+        return await ctx.watchAsync(flow);
+    });
+}
+
+/**
+ * A synchronous flow that follows the source flow after it has been quiet for the specified interval.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ */
+class DebouncedFlow<T> extends TimedFlowBase<T> {
+    /**
+     * Restarts the timer on every source change and marks the flow as dirty once the timer fires.
+     */
+    protected onSourcesChanged(): void {
+        this.startTimer(() => {
+            this.invalidate();
+        });
+    }
+}
@@ -0,0 +1,95 @@
+/* eslint-disable @typescript-eslint/require-await */
+import { createFlow } from "@tsip/flow";
+import type { AsyncFlow } from "@tsip/types";
+import { describe, it, expect, vi, expectTypeOf } from "vitest";
+import { takeEvery } from "./takeEvery";
+
+describe("takeEvery", () => {
+    it("should infer correct return type", () => {
+        const source = createFlow(1);
+        const flow = takeEvery(source, async (n) => n.toString());
+        expectTypeOf(flow).toEqualTypeOf<AsyncFlow<string>>();
+    });
+
+    it("should resolve with the result of the call", async () => {
+        const source = createFlow(2);
+        const flow = takeEvery(source, async (n) => n * 2);
+        expect(flow.getSnapshot()).toEqual({ status: "pending" });
+
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+    });
+
+    it("should process every source value in order", async () => {
+        const source = createFlow(0);
+        const resolvers: (() => void)[] = [];
+        const fn = vi.fn(
+            (value: number) =>
+                new Promise<number>((r) => {
+                    resolvers.push(() => {
+                        r(value);
+                    });
+                }),
+        );
+        const flow = takeEvery(source, fn);
+
+        flow.subscribe(vi.fn());
+        await nextTick();
+        resolvers[0]?.();
+        await nextTick();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 0 });
+
+        source.emit(1);
+        expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+        source.emit(2);
+        expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+        await nextTick();
+        // the next call starts only after the previous one is finished
+        expect(fn).toHaveBeenCalledTimes(2);
+        expect(fn).toHaveBeenLastCalledWith(1);
+
+        resolvers[1]?.();
+        await nextTick();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+        expect(fn).toHaveBeenCalledTimes(3);
+        expect(fn).toHaveBeenLastCalledWith(2);
+
+        resolvers[2]?.();
+        await nextTick();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+    });
+
+    it("should continue processing after a failed call", async () => {
+        const error = new Error("test");
+        const source = createFlow(0);
+        const fn = vi.fn(async (value: number) => {
+            if (value === 1) throw error;
+            return value;
+        });
+        const flow = takeEvery(source, fn);
+
+        flow.subscribe(vi.fn());
+        await flow.asPromise();
+
+        source.emit(1);
+        flow.getSnapshot();
+        source.emit(2);
+        flow.getSnapshot();
+
+        await expect(flow.asPromise()).resolves.toBe(2);
+        expect(fn.mock.calls).toEqual([[0], [1], [2]]);
+    });
+});
+
+async function nextTick() {
+    await new Promise<void>((resolve) => {
+        queueMicrotask(resolve);
+    });
+}
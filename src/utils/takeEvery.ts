@@ -0,0 +1,44 @@
+import type { AsyncFlow, Flow } from "@tsip/types";
+import { asyncComputedFlow } from "../async/factory";
+
+/**
+ * Creates an async flow that runs the async function for every value of the source flow, one call at a time.
+ *
+ * Unlike {@link takeLatest}, a new source value doesn't cancel the running call: calls are queued and run
+ * sequentially in the order the values were emitted, and their results are published in the same order.
+ * While the queue is being processed, the flow stays `pending` and its data is updated with each
+ * intermediate result. This is also known as the "queue" strategy.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ * @typeParam U - The type of values produced by the async function
+ *
+ * @param flow - The source flow
+ * @param fn - The async function to run for every value of the source flow
+ *
+ * @returns A new async flow that emits the results of all calls in order
+ *
+ * @example
+ * ```typescript
+ * const message = createFlow("");
+ * const sendResult = takeEvery(message, (text) => sendMessage(text));
+ *
+ * // Both messages are sent one after another
+ * message.emit("Hello");
+ * message.emit("World");
+ * ```
+ * @see {@link takeLatest} - For cancelling the running call in favour of the new one
+ * @see {@link takeFirst} - For ignoring new source values while a call is in flight
+ */
+export function takeEvery<T, U>(flow: Flow<T>, fn: (value: T) => Promise<U>): AsyncFlow<U> {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    return asyncComputedFlow((ctx) => {
+        const value = ctx.watch(flow);
+
+        // The call starts only after the previous call is finished
+        const result = queue.then(() => fn(value));
+        queue = result.catch(() => undefined);
+
+        return result;
+    });
+}
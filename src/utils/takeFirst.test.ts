@@ -0,0 +1,138 @@
+/* eslint-disable @typescript-eslint/require-await */
+import { createFlow } from "@tsip/flow";
+import type { AsyncFlow } from "@tsip/types";
+import { describe, it, expect, vi, expectTypeOf } from "vitest";
+import { takeFirst } from "./takeFirst";
+
+describe("takeFirst", () => {
+    it("should infer correct return type", () => {
+        const source = createFlow(1);
+        const flow = takeFirst(source, async (n) => n.toString());
+        expectTypeOf(flow).toEqualTypeOf<AsyncFlow<string>>();
+    });
+
+    it("should resolve with the result of the call", async () => {
+        const source = createFlow(2);
+        const flow = takeFirst(source, async (n) => n * 2);
+        expect(flow.getSnapshot()).toEqual({ status: "pending" });
+
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 4 });
+    });
+
+    it("should ignore source values while a call is in flight", async () => {
+        const source = createFlow(0);
+        const resolvers: (() => void)[] = [];
+        const fn = vi.fn(
+            (value: number) =>
+                new Promise<number>((r) => {
+                    resolvers.push(() => {
+                        r(value);
+                    });
+                }),
+        );
+        const flow = takeFirst(source, fn);
+
+        flow.subscribe(vi.fn());
+        resolvers[0]?.();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 0 });
+
+        source.emit(1);
+        expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+        source.emit(2);
+        expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+        expect(fn).toHaveBeenCalledTimes(2);
+
+        resolvers[1]?.();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should ignore source values emitted during the call without reads", async () => {
+        const source = createFlow(0);
+        const resolvers: (() => void)[] = [];
+        const fn = vi.fn(
+            (value: number) =>
+                new Promise<number>((r) => {
+                    resolvers.push(() => {
+                        r(value);
+                    });
+                }),
+        );
+        const flow = takeFirst(source, fn);
+        expect(flow.getSnapshot()).toEqual({ status: "pending" });
+
+        resolvers[0]?.();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 0 });
+
+        source.emit(1);
+        expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+        source.emit(2);
+
+        resolvers[1]?.();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+        expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should handle source values emitted after the call is finished", async () => {
+        const source = createFlow(0);
+        const resolvers: (() => void)[] = [];
+        const fn = vi.fn(
+            (value: number) =>
+                new Promise<number>((r) => {
+                    resolvers.push(() => {
+                        r(value);
+                    });
+                }),
+        );
+        const flow = takeFirst(source, fn);
+
+        flow.subscribe(vi.fn());
+        resolvers[0]?.();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 0 });
+
+        source.emit(3);
+        expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+        expect(fn).toHaveBeenCalledTimes(2);
+        expect(fn).toHaveBeenLastCalledWith(3);
+
+        resolvers[1]?.();
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "success", data: 3 });
+    });
+
+    it("should accept new values after a failed call", async () => {
+        const error = new Error("test");
+        const source = createFlow(0);
+        const fn = vi.fn(async (value: number) => {
+            if (value === 0) throw error;
+            return value;
+        });
+        const flow = takeFirst(source, fn);
+
+        flow.subscribe(vi.fn());
+        await nextTick();
+        await nextTick();
+        expect(flow.getSnapshot()).toEqual({ status: "error", error });
+
+        source.emit(1);
+        await expect(flow.asPromise()).resolves.toBe(1);
+    });
+});
+
+async function nextTick() {
+    await new Promise<void>((resolve) => {
+        queueMicrotask(resolve);
+    });
+}
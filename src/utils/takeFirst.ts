@@ -0,0 +1,51 @@
+import type { AsyncFlow, Flow } from "@tsip/types";
+import { asyncComputedFlow } from "../async/factory";
+
+/**
+ * Creates an async flow that runs the async function for a value of the source flow and ignores
+ * new source values while the call is in flight.
+ *
+ * Source values emitted before the running call is finished are dropped: the flow resolves with the result
+ * of the running call and does not rerun the function for them. Values emitted after the call is finished
+ * are handled as usual. This is also known as the "exhaust" strategy.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ * @typeParam U - The type of values produced by the async function
+ *
+ * @param flow - The source flow
+ * @param fn - The async function to run for a value of the source flow
+ *
+ * @returns A new async flow that emits the result of the call started while idle
+ *
+ * @example
+ * ```typescript
+ * const submitCount = createFlow(0);
+ * const submitResult = takeFirst(submitCount, () => submitForm());
+ *
+ * // Repeated clicks are ignored until the form is submitted
+ * submitCount.emit(1);
+ * submitCount.emit(2);
+ * ```
+ * @see {@link takeLatest} - For cancelling the running call in favour of the new one
+ * @see {@link takeEvery} - For processing every source value in order
+ */
+export function takeFirst<T, U>(flow: Flow<T>, fn: (value: T) => Promise<U>): AsyncFlow<U> {
+    let inFlight = false;
+
+    return asyncComputedFlow(async (ctx) => {
+        const value = ctx.watch(flow);
+        if (inFlight) {
+            // Skipping reverts the flow to the computation in flight
+            ctx.skip();
+        }
+
+        inFlight = true;
+        try {
+            return await fn(value);
+        } finally {
+            inFlight = false;
+            // Remember the current source value, so values emitted during the call don't cause a rerun
+            ctx.watch(flow);
+        }
+    });
+}
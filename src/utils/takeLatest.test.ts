@@ -1,9 +1,19 @@
+/* eslint-disable @typescript-eslint/require-await */
 import { createFlow } from "@tsip/flow";
-import { describe, it, expect } from "vitest";
+import type { AsyncFlow } from "@tsip/types";
+import { describe, it, expect, vi, expectTypeOf } from "vitest";
 import { takeLatest } from "./takeLatest";
 import { asyncComputedFlow } from "../async/factory";
 
 describe("takeLatest", () => {
+    it("should infer correct return type", () => {
+        const asyncSource = asyncComputedFlow(async () => 1);
+        expectTypeOf(takeLatest(asyncSource)).toEqualTypeOf<AsyncFlow<number>>();
+
+        const source = createFlow(1);
+        expectTypeOf(takeLatest(source, async (n) => n.toString())).toEqualTypeOf<AsyncFlow<string>>();
+    });
+
     it("should handle concurrent computations (first starts, first ends)", async () => {
         //  C1
         //  |   C2
@@ -92,6 +102,73 @@ describe("takeLatest", () => {
         expect(value2).toEqual({ status: "success", data: 2 });
         expect(value2).toBe(value1);
     });
+
+    describe("with async function", () => {
+        it("should resolve with the result of the latest call", async () => {
+            const source = createFlow(0);
+            const resolvers: (() => void)[] = [];
+            const fn = vi.fn(
+                (value: number) =>
+                    new Promise<number>((r) => {
+                        resolvers.push(() => {
+                            r(value);
+                        });
+                    }),
+            );
+            const flow = takeLatest(source, fn);
+
+            flow.subscribe(vi.fn());
+            resolvers[0]?.();
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 0 });
+
+            source.emit(1);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+            source.emit(2);
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+
+            // finish first call
+            resolvers[1]?.();
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 0 });
+
+            // finish second call
+            resolvers[2]?.();
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+        });
+
+        it("should abort the signal of the superseded call", async () => {
+            const source = createFlow(0);
+            const signals: AbortSignal[] = [];
+            const flow = takeLatest(source, async (value, signal) => {
+                signals.push(signal);
+                if (value > 0) {
+                    await new Promise<never>(() => {
+                        // never resolves
+                    });
+                }
+                return value;
+            });
+
+            flow.subscribe(vi.fn());
+            await nextTick();
+            await nextTick();
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 0 });
+
+            source.emit(1);
+            flow.getSnapshot();
+            source.emit(2);
+            flow.getSnapshot();
+
+            expect(signals).toHaveLength(3);
+            expect(signals[1]?.aborted).toBe(true);
+            expect(signals[2]?.aborted).toBe(false);
+        });
+    });
 });
 
 async function nextTick() {
@@ -1,4 +1,4 @@
-import type { AsyncFlow } from "@tsip/types";
+import type { AsyncFlow, Flow, InferAsyncFlowValue } from "@tsip/types";
 import { asyncComputedFlow } from "../async/factory";
 
 /**
@@ -10,7 +10,7 @@ import { asyncComputedFlow } from "../async/factory";
  * first - this ensures chronological ordering based on when computations begin, preventing race
  * conditions and ensuring that only the most recent result is delivered.
  *
- * @typeParam T - The type of values emitted by the source async flow
+ * @typeParam T - The type of the source async flow
  *
  * @param flow - The source async flow to apply the take latest pattern to
  *
@@ -25,7 +25,6 @@ import { asyncComputedFlow } from "../async/factory";
  *     return await searchAPI(query);
  *   })
  * );
- * ```
  *
  * // Fast typing will cancel previous search computations
  * searchQuery.emit("a");
@@ -33,11 +32,41 @@ import { asyncComputedFlow } from "../async/factory";
  * searchQuery.emit("abc");
  * // Only search results for "abc" will be shown
  * ```
- * @see {@link takeLeading} - For ignoring new computations while one is already running
+ * @see {@link takeFirst} - For ignoring new source values while a computation is in flight
+ * @see {@link takeEvery} - For processing every source value in order
+ */
+export function takeLatest<T extends AsyncFlow<unknown>>(flow: T): AsyncFlow<InferAsyncFlowValue<T>>;
+
+/**
+ * Creates an async flow that runs the async function for the latest value of the source flow.
+ *
+ * When the source flow emits a new value while the function is still running, the signal passed
+ * to the previous call is aborted and only the result of the most recent call is emitted.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ * @typeParam U - The type of values produced by the async function
+ *
+ * @param flow - The source flow
+ * @param fn - The async function to run for each value of the source flow
+ *
+ * @returns A new async flow that emits the result of the latest call
+ *
+ * @example
+ * ```typescript
+ * const searchQuery = createFlow('');
+ * const searchResults = takeLatest(searchQuery, (query, signal) => searchAPI(query, { signal }));
+ * ```
  */
-export function takeLatest<T>(flow: AsyncFlow<T>): AsyncFlow<T> {
+export function takeLatest<T, U>(flow: Flow<T>, fn: (value: T, signal: AbortSignal) => Promise<U>): AsyncFlow<U>;
+
+export function takeLatest<T, U>(
+    flow: Flow<T> | AsyncFlow<U>,
+    fn?: (value: T, signal: AbortSignal) => Promise<U>,
+): AsyncFlow<U> {
     return asyncComputedFlow(async (ctx) => {
-        const value = await ctx.watchAsync(flow);
+        const value = fn
+            ? await fn(ctx.watch(flow as Flow<T>), ctx.signal)
+            : await ctx.watchAsync(flow as AsyncFlow<U>);
         ctx.signal.throwIfAborted();
         return value;
     });
@@ -0,0 +1,212 @@
+import { createAsyncFlow, createFlow } from "@tsip/flow";
+import type { AsyncFlow, Flow } from "@tsip/types";
+import { describe, it, expect, vi, expectTypeOf, beforeEach, afterEach } from "vitest";
+import { throttle } from "./throttle";
+
+describe("throttle", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should infer correct return type", () => {
+        const flow = throttle(createFlow(42), 100);
+        expectTypeOf(flow).toEqualTypeOf<Flow<number>>();
+
+        const asyncFlow = throttle(createAsyncFlow({ status: "success", data: 42 }), 100);
+        expectTypeOf(asyncFlow).toEqualTypeOf<AsyncFlow<number>>();
+    });
+
+    describe("sync flows", () => {
+        it("should return the source value initially", () => {
+            const source = createFlow(1);
+            const flow = throttle(source, 100);
+
+            expect(flow.getSnapshot()).toBe(1);
+        });
+
+        it("should update on the leading and trailing edges", () => {
+            const source = createFlow(1);
+            const flow = throttle(source, 100);
+            const values: number[] = [];
+            flow.subscribe(() => {
+                values.push(flow.getSnapshot());
+            });
+
+            source.emit(2);
+            expect(values).toEqual([2]);
+
+            source.emit(3);
+            vi.advanceTimersByTime(50);
+            source.emit(4);
+            expect(values).toEqual([2]);
+            expect(flow.getSnapshot()).toBe(2);
+
+            vi.advanceTimersByTime(50);
+            expect(values).toEqual([2, 4]);
+
+            // the trailing update starts the next interval
+            source.emit(5);
+            expect(values).toEqual([2, 4]);
+
+            vi.advanceTimersByTime(100);
+            expect(values).toEqual([2, 4, 5]);
+
+            vi.advanceTimersByTime(100);
+            source.emit(6);
+            expect(values).toEqual([2, 4, 5, 6]);
+        });
+
+        it("should not update on the trailing edge if the source has not changed during the interval", () => {
+            const source = createFlow(1);
+            const flow = throttle(source, 100);
+            const listener = vi.fn();
+            flow.subscribe(listener);
+
+            source.emit(2);
+            expect(listener).toHaveBeenCalledTimes(1);
+
+            vi.advanceTimersByTime(100);
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it("should support disabling the leading edge", () => {
+            const source = createFlow(1);
+            const flow = throttle(source, 100, { leading: false });
+            const values: number[] = [];
+            flow.subscribe(() => {
+                values.push(flow.getSnapshot());
+            });
+
+            source.emit(2);
+            vi.advanceTimersByTime(50);
+            source.emit(3);
+            expect(values).toEqual([]);
+            expect(flow.getSnapshot()).toBe(1);
+
+            vi.advanceTimersByTime(50);
+            expect(values).toEqual([3]);
+        });
+
+        it("should support disabling the trailing edge", () => {
+            const source = createFlow(1);
+            const flow = throttle(source, 100, { trailing: false });
+            const values: number[] = [];
+            flow.subscribe(() => {
+                values.push(flow.getSnapshot());
+            });
+
+            source.emit(2);
+            source.emit(3);
+            vi.advanceTimersByTime(100);
+            expect(values).toEqual([2]);
+
+            source.emit(4);
+            expect(values).toEqual([2, 4]);
+        });
+
+        it("should return the source value without subscribers", () => {
+            const source = createFlow(1);
+            const flow = throttle(source, 100);
+
+            expect(flow.getSnapshot()).toBe(1);
+            source.emit(2);
+            expect(flow.getSnapshot()).toBe(2);
+            source.emit(3);
+            expect(flow.getSnapshot()).toBe(3);
+        });
+
+        it("should cancel the pending timer when the last subscriber is removed", () => {
+            const source = createFlow(1);
+            const flow = throttle(source, 100);
+            const listener = vi.fn();
+            const subscription = flow.subscribe(listener);
+
+            source.emit(2);
+            source.emit(3);
+            expect(vi.getTimerCount()).toBe(1);
+
+            subscription.unsubscribe();
+            expect(vi.getTimerCount()).toBe(0);
+            expect(flow.getSnapshot()).toBe(3);
+        });
+    });
+
+    describe("async flows", () => {
+        it("should resolve on the leading edge", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = throttle(source, 100);
+
+            expect(flow.getSnapshot()).toEqual({ status: "pending" });
+
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+        });
+
+        it("should stay pending with previous data until the trailing edge", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = throttle(source, 100);
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(50);
+            source.emit({ status: "success", data: 2 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(25);
+            source.emit({ status: "success", data: 3 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(25);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 3 });
+        });
+
+        it("should resolve immediately after the interval has ended", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = throttle(source, 100);
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(100);
+
+            source.emit({ status: "success", data: 2 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 2 });
+        });
+
+        it("should support disabling the trailing edge", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = throttle(source, 100, { trailing: false });
+            flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(0);
+
+            source.emit({ status: "success", data: 2 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 1 });
+
+            await vi.advanceTimersByTimeAsync(100);
+            source.emit({ status: "success", data: 3 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            await vi.advanceTimersByTimeAsync(0);
+            expect(flow.getSnapshot()).toEqual({ status: "success", data: 3 });
+        });
+
+        it("should cancel the pending timer when the last subscriber is removed", async () => {
+            const source = createAsyncFlow({ status: "success", data: 1 });
+            const flow = throttle(source, 100);
+            const subscription = flow.subscribe(vi.fn());
+            await vi.advanceTimersByTimeAsync(0);
+
+            source.emit({ status: "success", data: 2 });
+            expect(flow.getSnapshot()).toEqual({ status: "pending", data: 1 });
+            expect(vi.getTimerCount()).toBe(1);
+
+            subscription.unsubscribe();
+            expect(vi.getTimerCount()).toBe(0);
+        });
+    });
+});
@@ -1,4 +1,190 @@
-import type { AsyncFlow, Flow } from "@tsip/types";
+import type { AsyncFlow, Flow, InferAsyncFlowValue } from "@tsip/types";
+import { delay } from "../lib/delay";
+import { isAsyncFlow } from "../lib/isAsyncFlow";
+import { TimedAsyncFlow, TimedFlowBase } from "./timedFlow";
 
-export declare function throttle<T>(flow: AsyncFlow<T>, interval: number): AsyncFlow<T>;
-export declare function throttle<T>(flow: Flow<T>, interval: number): Flow<T>;
+/**
+ * Configuration options for throttled flows.
+ */
+export interface ThrottleOptions {
+    /**
+     * Whether to update the flow on the leading edge of the interval,
+     * i.e. immediately on the first source change.
+     *
+     * @default true
+     */
+    leading?: boolean;
+
+    /**
+     * Whether to update the flow on the trailing edge of the interval,
+     * i.e. with the latest source value after the interval if the source has changed during it.
+     *
+     * @default true
+     */
+    trailing?: boolean;
+}
+
+/**
+ * Creates a flow that updates at most once per specified interval.
+ *
+ * For synchronous flows, the resulting flow notifies its subscribers at most once per `interval`
+ * milliseconds. For async flows, computations started during the interval stay `pending`
+ * (keeping the previous data) until the interval ends.
+ *
+ * Throttling applies while the flow has subscribers. Without subscribers, the synchronous flow
+ * returns the latest source value. Pending timers are cancelled when the last subscriber is removed.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ *
+ * @param flow - The source flow to throttle
+ * @param interval - The interval in milliseconds
+ * @param options - Optional configuration of the leading and trailing edges
+ *
+ * @returns A new flow that emits throttled values
+ *
+ * @example
+ * ```typescript
+ * const scrollPosition = createFlow(0);
+ * const throttledPosition = throttle(scrollPosition, 100);
+ *
+ * scrollPosition.emit(10); // throttledPosition updates to 10 immediately
+ * scrollPosition.emit(20);
+ * scrollPosition.emit(30); // throttledPosition updates to 30 after 100ms
+ * ```
+ */
+export function throttle<T extends AsyncFlow<unknown>>(
+    flow: T,
+    interval: number,
+    options?: ThrottleOptions,
+): AsyncFlow<InferAsyncFlowValue<T>>;
+export function throttle<T>(flow: Flow<T>, interval: number, options?: ThrottleOptions): Flow<T>;
+export function throttle<T>(
+    flow: Flow<T> | AsyncFlow<T>,
+    interval: number,
+    options?: ThrottleOptions,
+): Flow<T> | AsyncFlow<T> {
+    if (isAsyncFlow(flow)) {
+        return throttleAsync(flow, interval, options);
+    }
+    return new ThrottledFlow(flow, interval, options);
+}
+
+/**
+ * Creates a throttled async flow.
+ *
+ * @typeParam T - The type of values emitted by the source async flow
+ * @param flow - The source async flow to throttle
+ * @param interval - The interval in milliseconds
+ * @param options - Optional configuration of the leading and trailing edges
+ * @returns A new async flow that computes at most once per interval
+ */
+function throttleAsync<T>(flow: AsyncFlow<T>, interval: number, options?: ThrottleOptions): AsyncFlow<T> {
+    const leading = options?.leading ?? true;
+    const trailing = options?.trailing ?? true;
+
+    /** The time when the current interval ends */
+    let intervalEnd = 0;
+
+    return new TimedAsyncFlow<T>(async (ctx) => {
+        // Register the dependency before waiting, so a newer source change supersedes the waiting computation
+        ctx.watch(flow);
+
+        const now = Date.now();
+        if (now >= intervalEnd) {
+            // The first change starts a new interval
+            intervalEnd = now + interval;
+            if (!leading) {
+                // A newer computation aborts the signal, which cancels the timer
+                await delay(interval, ctx.signal);
+            }
+        } else {
+            if (!trailing) {
+                return ctx.skip();
+            }
+
+            // Changes during the interval are applied on the trailing edge, which starts the next interval
+            await delay(intervalEnd - now, ctx.signal);
+            intervalEnd = Date.now() + interval;
+        }
+
+        return await ctx.watchAsync(flow);
+    });
+}
+
+/**
+ * A synchronous flow that follows the source flow, notifying subscribers at most once per interval.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ */
+class ThrottledFlow<T> extends TimedFlowBase<T> {
+    /**
+     * Whether to update the flow on the leading edge of the interval.
+     */
+    private leading: boolean;
+
+    /**
+     * Whether to update the flow on the trailing edge of the interval.
+     */
+    private trailing: boolean;
+
+    /**
+     * Whether the source has changed during the current interval.
+     */
+    private hasTrailingChange = false;
+
+    /**
+     * Creates a new ThrottledFlow instance.
+     *
+     * @param flow - The source flow
+     * @param interval - The interval in milliseconds
+     * @param options - Optional configuration of the leading and trailing edges
+     */
+    public constructor(flow: Flow<T>, interval: number, options?: ThrottleOptions) {
+        super(flow, interval);
+        this.leading = options?.leading ?? true;
+        this.trailing = options?.trailing ?? true;
+    }
+
+    /**
+     * Updates the flow on the leading edge and defers further source changes until the interval ends.
+     */
+    protected onSourcesChanged(): void {
+        if (this.hasTimer()) {
+            this.hasTrailingChange = true;
+            return;
+        }
+
+        if (this.leading) {
+            this.invalidate();
+        } else {
+            this.hasTrailingChange = true;
+        }
+        this.startInterval();
+    }
+
+    /**
+     * Starts a new interval. If the source has changed during the interval,
+     * the flow is updated on the trailing edge, which starts the next interval.
+     */
+    private startInterval(): void {
+        this.startTimer(() => {
+            if (!this.hasTrailingChange) {
+                return;
+            }
+            this.hasTrailingChange = false;
+
+            if (this.trailing && this.activeComputation?.sourcesHasBeenChanged()) {
+                this.invalidate();
+                this.startInterval();
+            }
+        });
+    }
+
+    /**
+     * Cancels the pending interval when the last subscriber is removed.
+     */
+    protected onDeactivated(): void {
+        super.onDeactivated();
+        this.hasTrailingChange = false;
+    }
+}
@@ -0,0 +1,123 @@
+import type { AsyncFlow, Flow } from "@tsip/types";
+import { AsyncComputedPromiseFlow } from "../async/promises/instance";
+import { ComputedFlowBase } from "../base/instance";
+import { FlowComputation } from "../sync/computation";
+
+/**
+ * Abstract base class for synchronous flows that follow a single source flow
+ * and control the timing of updates with a timer.
+ *
+ * Subclasses decide when the flow becomes dirty by overriding {@link onSourcesChanged}.
+ * The timer is cancelled when the last subscriber is removed.
+ *
+ * @typeParam T - The type of values emitted by the source flow
+ */
+export abstract class TimedFlowBase<T> extends ComputedFlowBase<T, FlowComputation<T>> implements Flow<T> {
+    /**
+     * The source flow.
+     */
+    private flow: Flow<T>;
+
+    /**
+     * The interval in milliseconds.
+     */
+    protected interval: number;
+
+    /**
+     * The pending timer, if any.
+     */
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Creates a new TimedFlowBase instance.
+     *
+     * @param flow - The source flow
+     * @param interval - The interval in milliseconds
+     */
+    public constructor(flow: Flow<T>, interval: number) {
+        super();
+        this.flow = flow;
+        this.interval = interval;
+    }
+
+    /**
+     * Reads the current value of the source flow.
+     *
+     * @returns A FlowComputation containing the source value or error state
+     */
+    protected compute(): FlowComputation<T> {
+        const computation = new FlowComputation<T>();
+        try {
+            computation.setValue(computation.getContext().watch(this.flow));
+        } catch (err) {
+            computation.setError(err);
+        } finally {
+            computation.finalize();
+        }
+        this.onComputationFinished(computation);
+        return computation;
+    }
+
+    /**
+     * Marks the flow as dirty and notifies subscribers.
+     */
+    protected invalidate(): void {
+        super.onSourcesChanged();
+    }
+
+    /**
+     * Whether the timer is currently running.
+     *
+     * @returns `true` if the timer is running, `false` otherwise
+     */
+    protected hasTimer(): boolean {
+        return this.timer !== null;
+    }
+
+    /**
+     * Starts the timer, cancelling the previous one.
+     *
+     * @param callback - The function to call when the interval elapses
+     */
+    protected startTimer(callback: () => void): void {
+        this.clearTimer();
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            callback();
+        }, this.interval);
+    }
+
+    /**
+     * Cancels the pending timer, if any.
+     */
+    protected clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Cancels the pending timer when the last subscriber is removed.
+     */
+    protected onDeactivated(): void {
+        this.clearTimer();
+    }
+}
+
+/**
+ * An async computed flow whose computations wait on a timer before reading the source flow.
+ *
+ * Unlike other async flows, it aborts in-flight computations when the last subscriber is removed,
+ * which cancels the timers they are waiting on.
+ *
+ * @typeParam T - The type of data of the source flow
+ */
+export class TimedAsyncFlow<T> extends AsyncComputedPromiseFlow<T> implements AsyncFlow<T> {
+    /**
+     * Aborts in-flight computations when the last subscriber is removed.
+     */
+    protected onDeactivated(): void {
+        this.abortPendingComputations();
+    }
+}